@@ -0,0 +1,27 @@
+import * as core from '@actions/core'
+import * as fs from 'fs/promises'
+import * as path from 'path'
+
+export type VersionedBinary = {
+  version: string
+  nucelPath: string
+}
+
+export const getAliasName = (version: string): string => `nucel-${version}`
+
+/**
+ * Creates a `nucel-<version>` command in `aliasDir` for each installed version, so several
+ * versions can be run side by side. Windows gets a .cmd shim, other platforms a symlink.
+ */
+export const createAliases = async (binaries: VersionedBinary[], aliasDir: string): Promise<void> => {
+  await fs.mkdir(aliasDir, { recursive: true })
+  for (const { version, nucelPath } of binaries) {
+    const aliasName = getAliasName(version)
+    if (process.platform === 'win32') {
+      await fs.writeFile(path.join(aliasDir, `${aliasName}.cmd`), `@"${nucelPath}" %*\r\n`)
+    } else {
+      await fs.symlink(nucelPath, path.join(aliasDir, aliasName))
+    }
+    core.info(`Added ${aliasName} for ${nucelPath}`)
+  }
+}
@@ -0,0 +1,68 @@
+import * as core from '@actions/core'
+import * as tc from '@actions/tool-cache'
+import * as fs from 'fs/promises'
+import * as path from 'path'
+
+export type ArchiveFormat = 'gzip' | 'xz' | 'zstd' | 'zip' | 'binary'
+
+const SIGNATURES: { format: ArchiveFormat; magic: number[] }[] = [
+  { format: 'gzip', magic: [0x1f, 0x8b] },
+  { format: 'xz', magic: [0xfd, 0x37, 0x7a, 0x58, 0x5a, 0x00] },
+  { format: 'zstd', magic: [0x28, 0xb5, 0x2f, 0xfd] },
+  { format: 'zip', magic: [0x50, 0x4b, 0x03, 0x04] },
+  // ELF
+  { format: 'binary', magic: [0x7f, 0x45, 0x4c, 0x46] },
+  // Mach-O (32/64-bit, both byte orders) and universal binaries
+  { format: 'binary', magic: [0xfe, 0xed, 0xfa, 0xce] },
+  { format: 'binary', magic: [0xfe, 0xed, 0xfa, 0xcf] },
+  { format: 'binary', magic: [0xce, 0xfa, 0xed, 0xfe] },
+  { format: 'binary', magic: [0xcf, 0xfa, 0xed, 0xfe] },
+  { format: 'binary', magic: [0xca, 0xfe, 0xba, 0xbe] },
+  // PE (MZ header)
+  { format: 'binary', magic: [0x4d, 0x5a] },
+]
+
+const readHeader = async (filePath: string, length: number): Promise<Buffer> => {
+  const handle = await fs.open(filePath, 'r')
+  try {
+    const buffer = Buffer.alloc(length)
+    const { bytesRead } = await handle.read(buffer, 0, length, 0)
+    return buffer.subarray(0, bytesRead)
+  } finally {
+    await handle.close()
+  }
+}
+
+export const detectArchiveFormat = async (filePath: string): Promise<ArchiveFormat> => {
+  const header = await readHeader(filePath, 8)
+  const signature = SIGNATURES.find(({ magic }) => magic.every((byte, i) => header[i] === byte))
+  if (!signature) {
+    throw new Error(`Unknown archive format (header ${header.toString('hex') || 'empty'}): ${filePath}`)
+  }
+  return signature.format
+}
+
+/**
+ * Extracts the downloaded file into `dest` according to its magic bytes rather than its name.
+ * A raw binary is copied into `dest` as `binaryName`.
+ */
+export const extractArchive = async (filePath: string, binaryName: string, dest: string): Promise<string> => {
+  const format = await detectArchiveFormat(filePath)
+  core.info(`Detected ${format} archive`)
+
+  switch (format) {
+    case 'gzip':
+      return await tc.extractTar(filePath, dest, 'xz')
+    case 'xz':
+      return await tc.extractTar(filePath, dest, 'xJ')
+    case 'zstd':
+      return await tc.extractTar(filePath, dest, ['x', '--zstd'])
+    case 'zip':
+      return await tc.extractZip(filePath, dest)
+    case 'binary': {
+      await fs.mkdir(dest, { recursive: true })
+      await fs.copyFile(filePath, path.join(dest, binaryName))
+      return dest
+    }
+  }
+}
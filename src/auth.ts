@@ -0,0 +1,39 @@
+import * as core from '@actions/core'
+import * as exec from '@actions/exec'
+
+export const TOKEN_ENV = 'NUCEL_TOKEN'
+
+/**
+ * Exports the token for later steps and checks it with `nucel whoami`,
+ * so that a bad token fails the setup step instead of the deploy step.
+ */
+export const authenticate = async (nucelPath: string, token: string): Promise<void> => {
+  core.exportVariable(TOKEN_ENV, token)
+
+  const output = await exec.getExecOutput(nucelPath, ['whoami'], {
+    ignoreReturnCode: true,
+    silent: true,
+    env: { ...process.env, [TOKEN_ENV]: token } as Record<string, string>,
+  })
+  if (output.exitCode !== 0) {
+    throw new Error(`Nucel CLI authentication failed: ${output.stderr.trim() || `exit code ${output.exitCode}`}`)
+  }
+
+  core.info(`Authenticated Nucel CLI as ${output.stdout.trim()}`)
+  core.saveState('authenticatedCliPath', nucelPath)
+}
+
+export const revokeCredentials = async (): Promise<void> => {
+  const nucelPath = core.getState('authenticatedCliPath')
+  if (!nucelPath) {
+    return
+  }
+
+  // `nucel logout` removes any credentials the CLI stored during the job
+  const exitCode = await exec.exec(nucelPath, ['logout'], { ignoreReturnCode: true })
+  if (exitCode !== 0) {
+    core.warning(`nucel logout exited with code ${exitCode}`)
+  }
+  core.exportVariable(TOKEN_ENV, '')
+  core.info('Nucel CLI credentials removed')
+}
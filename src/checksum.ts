@@ -0,0 +1,86 @@
+import * as core from '@actions/core'
+import * as crypto from 'crypto'
+import * as fs from 'fs/promises'
+import { Release } from './releases.js'
+
+const CHECKSUM_MANIFEST_NAMES = ['SHA256SUMS', 'SHA256SUMS.txt', 'checksums.txt']
+
+export const computeSha256 = async (filePath: string): Promise<string> => {
+  const content = await fs.readFile(filePath)
+  return crypto.createHash('sha256').update(content).digest('hex')
+}
+
+// Parses `sha256sum` output: `<hex digest>  <file name>` (binary mode uses `*<file name>`)
+export const parseChecksumManifest = (manifest: string): Map<string, string> => {
+  const checksums = new Map<string, string>()
+  for (const line of manifest.split(/\r?\n/)) {
+    const match = /^([a-fA-F0-9]{64})\s+\*?(.+)$/.exec(line.trim())
+    if (match) {
+      checksums.set(match[2].trim(), match[1].toLowerCase())
+    }
+  }
+  return checksums
+}
+
+const fetchExpectedChecksum = async (release: Release, assetName: string): Promise<string | null> => {
+  const manifestAsset = release.assets.find((asset) => CHECKSUM_MANIFEST_NAMES.includes(asset.name))
+  if (!manifestAsset) {
+    return null
+  }
+
+  core.info(`Downloading checksum manifest: ${manifestAsset.url}`)
+  const response = await fetch(manifestAsset.url, { headers: release.headers })
+  if (!response.ok) {
+    throw new Error(`Failed to download checksum manifest: ${response.status} ${response.statusText}`)
+  }
+
+  const checksum = parseChecksumManifest(await response.text()).get(assetName)
+  if (!checksum) {
+    throw new Error(`Checksum manifest ${manifestAsset.name} has no entry for ${assetName}`)
+  }
+  return checksum
+}
+
+export type ArchiveDigest = {
+  sha256: string
+  // False when there was nothing to verify against and allow-unverified let the archive through
+  verified: boolean
+}
+
+/**
+ * Returns the digest the asset must have: the `checksum` input, or else its entry in the release's checksum
+ * manifest. Returns null when the release has no manifest.
+ */
+export const getExpectedChecksum = async (release: Release, assetName: string, checksum?: string): Promise<string | null> =>
+  checksum ? checksum.trim().toLowerCase() : await fetchExpectedChecksum(release, assetName)
+
+/**
+ * Verifies the archive against the `checksum` input, or else the release's checksum manifest.
+ * An archive with neither is rejected unless `allowUnverified` is set. Returns the SHA-256 digest of the archive.
+ */
+export const verifyChecksum = async (
+  filePath: string,
+  assetName: string,
+  release: Release,
+  checksum?: string,
+  allowUnverified = false,
+): Promise<ArchiveDigest> => {
+  const digest = await computeSha256(filePath)
+  const expected = await getExpectedChecksum(release, assetName, checksum)
+
+  if (!expected && allowUnverified) {
+    core.warning(`No checksum available for ${assetName} in release ${release.tag}; skipping verification`)
+    return { sha256: digest, verified: false }
+  }
+  if (!expected) {
+    throw new Error(
+      `No checksum available for ${assetName} in release ${release.tag}. Set checksum to its SHA-256 digest, or allow-unverified to install it without verification`,
+    )
+  }
+  if (digest !== expected) {
+    throw new Error(`Checksum mismatch for ${assetName}: expected ${expected}, got ${digest}`)
+  }
+
+  core.info(`Checksum verified: sha256:${digest}`)
+  return { sha256: digest, verified: true }
+}
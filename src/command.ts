@@ -0,0 +1,122 @@
+import * as core from '@actions/core'
+import * as exec from '@actions/exec'
+import * as path from 'path'
+
+export type CommandResult = {
+  deploymentUrl?: string
+  deploymentId?: string
+}
+
+/**
+ * Splits a command line on whitespace, keeping quoted arguments together like a shell would.
+ * Within double quotes, a backslash escapes `"` and `\`; single quotes take everything literally.
+ */
+const splitCommand = (command: string): string[] => {
+  const args: string[] = []
+  let current: string | null = null
+  let quote: '"' | "'" | null = null
+  for (let i = 0; i < command.length; i++) {
+    const char = command[i]
+    if (quote) {
+      if (char === quote) {
+        quote = null
+      } else if (quote === '"' && char === '\\' && (command[i + 1] === '"' || command[i + 1] === '\\')) {
+        current += command[++i]
+      } else {
+        current += char
+      }
+    } else if (char === '"' || char === "'") {
+      quote = char
+      current ??= ''
+    } else if (/\s/.test(char)) {
+      if (current !== null) {
+        args.push(current)
+        current = null
+      }
+    } else {
+      current = (current ?? '') + char
+    }
+  }
+  if (quote) {
+    throw new Error(`command has an unterminated ${quote} quote`)
+  }
+  if (current !== null) {
+    args.push(current)
+  }
+  return args
+}
+
+// Field names the CLI has used for deployments in its `--json` output, in order of preference
+const URL_FIELDS = ['deploymentUrl', 'deployment_url', 'url']
+const ID_FIELDS = ['deploymentId', 'deployment_id', 'id']
+
+const pickString = (object: Record<string, unknown>, fields: string[]): string | undefined => {
+  for (const field of fields) {
+    const value = object[field]
+    if (typeof value === 'string' || typeof value === 'number') {
+      return String(value)
+    }
+  }
+  return undefined
+}
+
+// Takes the whole output if it is JSON, else the last line that is a JSON object (progress is printed before it)
+const parseJSONOutput = (stdout: string): Record<string, unknown> | undefined => {
+  const candidates = [stdout.trim(), ...stdout.trim().split(/\r?\n/).reverse()]
+  for (const candidate of candidates) {
+    if (!candidate.trim().startsWith('{')) {
+      continue
+    }
+    try {
+      return JSON.parse(candidate) as Record<string, unknown>
+    } catch {
+      // Not JSON, try the next candidate
+    }
+  }
+  return undefined
+}
+
+export const parseCommandOutput = (stdout: string): CommandResult => {
+  const output = parseJSONOutput(stdout)
+  if (!output) {
+    return {}
+  }
+  const deployment =
+    output.deployment && typeof output.deployment === 'object' ? (output.deployment as Record<string, unknown>) : output
+  return {
+    deploymentUrl: pickString(deployment, URL_FIELDS),
+    deploymentId: pickString(deployment, ID_FIELDS),
+  }
+}
+
+/**
+ * Runs a Nucel CLI command with the installed binary, e.g. `deploy --prod`.
+ * A leading `nucel` is accepted, so the command can be copied from a `run:` step as is.
+ */
+export const runCommand = async (nucelPath: string, command: string, workingDirectory?: string): Promise<CommandResult> => {
+  const args = splitCommand(command)
+  if (args[0] === 'nucel') {
+    args.shift()
+  }
+  if (args.length === 0) {
+    throw new Error('command must contain a Nucel CLI command')
+  }
+
+  const cwd = path.resolve(process.env.GITHUB_WORKSPACE || process.cwd(), workingDirectory || '.')
+  const output = await core.group(`Running nucel ${args.join(' ')}`, () =>
+    exec.getExecOutput(nucelPath, args, { cwd, ignoreReturnCode: true }),
+  )
+  if (output.exitCode !== 0) {
+    throw new Error(`nucel ${args.join(' ')} failed with exit code ${output.exitCode}`)
+  }
+
+  const result = parseCommandOutput(output.stdout)
+  if (result.deploymentUrl) {
+    core.setOutput('deployment-url', result.deploymentUrl)
+    core.info(`Deployment URL: ${result.deploymentUrl}`)
+  }
+  if (result.deploymentId) {
+    core.setOutput('deployment-id', result.deploymentId)
+  }
+  return result
+}
@@ -0,0 +1,123 @@
+import * as core from '@actions/core'
+import * as exec from '@actions/exec'
+import { Ajv, ErrorObject } from 'ajv'
+import * as fs from 'fs/promises'
+import { Node, ParseError, findNodeAtLocation, parseTree, printParseErrorCode } from 'jsonc-parser'
+import * as path from 'path'
+import bundledSchema from './nucel-config-schema.json' with { type: 'json' }
+
+export const DEFAULT_CONFIG_FILE = 'nucel.config.json'
+
+export type ConfigProblem = {
+  message: string
+  line: number
+  column: number
+}
+
+const getPosition = (text: string, offset: number): Pick<ConfigProblem, 'line' | 'column'> => {
+  const lines = text.slice(0, offset).split('\n')
+  return { line: lines.length, column: lines[lines.length - 1].length + 1 }
+}
+
+// JSON pointer segments, with array indices as numbers so jsonc-parser can walk them
+const getLocation = (root: Node, instancePath: string): (string | number)[] => {
+  const segments: (string | number)[] = []
+  for (const segment of instancePath.split('/').slice(1)) {
+    const key = segment.replace(/~1/g, '/').replace(/~0/g, '~')
+    const parent = findNodeAtLocation(root, segments)
+    segments.push(parent?.type === 'array' ? Number(key) : key)
+  }
+  return segments
+}
+
+// Unknown keys point at the key itself, everything else at the offending value
+const getOffset = (root: Node, error: ErrorObject): number => {
+  const location = getLocation(root, error.instancePath)
+  if (error.keyword === 'additionalProperties') {
+    const value = findNodeAtLocation(root, [...location, error.params.additionalProperty])
+    return value?.parent?.children?.[0].offset ?? root.offset
+  }
+  return findNodeAtLocation(root, location)?.offset ?? root.offset
+}
+
+const formatError = (error: ErrorObject): string => {
+  if (error.keyword === 'additionalProperties') {
+    return `Unknown key "${error.params.additionalProperty}"${error.instancePath ? ` in ${error.instancePath}` : ''}`
+  }
+  return `${error.instancePath || 'config'} ${error.message}`
+}
+
+/**
+ * Checks the config text for JSON syntax errors, then against the schema. Every problem
+ * carries the line and column it was found at.
+ */
+export const findConfigProblems = (text: string, schema: object): ConfigProblem[] => {
+  const parseErrors: ParseError[] = []
+  const root = parseTree(text, parseErrors, { disallowComments: true, allowTrailingComma: false })
+  // The parser recovers from a syntax error, but whatever it reports after the first one tends to be a consequence
+  const [parseError] = parseErrors
+  if (parseError || !root) {
+    return [
+      {
+        message: parseError ? `Invalid JSON: ${printParseErrorCode(parseError.error)}` : 'Invalid JSON: the file is empty',
+        ...getPosition(text, parseError?.offset ?? 0),
+      },
+    ]
+  }
+
+  const validate = new Ajv({ allErrors: true, strict: false, validateSchema: false }).compile(schema)
+  if (validate(JSON.parse(text))) {
+    return []
+  }
+  return (validate.errors ?? []).map((error) => ({
+    message: formatError(error),
+    ...getPosition(text, getOffset(root, error)),
+  }))
+}
+
+// The installed CLI knows the schema of its own version; older CLIs without the command get the bundled one
+const getSchema = async (nucelPath: string): Promise<{ schema: object; source: string }> => {
+  try {
+    const output = await exec.getExecOutput(nucelPath, ['config', 'schema'], { ignoreReturnCode: true, silent: true })
+    if (output.exitCode === 0) {
+      return { schema: JSON.parse(output.stdout) as object, source: 'nucel config schema' }
+    }
+    core.debug(`nucel config schema exited with code ${output.exitCode}: ${output.stderr.trim()}`)
+  } catch (error) {
+    core.debug(`Could not read the config schema from the CLI: ${error}`)
+  }
+  return { schema: bundledSchema, source: 'the bundled schema' }
+}
+
+/**
+ * Validates the project's Nucel config and annotates each problem on its line.
+ * Throws when the config is missing or invalid, so the job fails before anything is deployed.
+ */
+export const validateConfig = async (nucelPath: string, configFile: string, workingDirectory?: string): Promise<void> => {
+  const workspace = process.env.GITHUB_WORKSPACE || process.cwd()
+  const configPath = path.resolve(workspace, workingDirectory || '.', configFile)
+  // Annotations are matched against paths relative to the repository root
+  const file = path.relative(workspace, configPath).split(path.sep).join('/')
+
+  let text: string
+  try {
+    text = await fs.readFile(configPath, 'utf-8')
+  } catch (error) {
+    throw new Error(`Could not read the Nucel config ${file}: ${error}`)
+  }
+
+  const { schema, source } = await getSchema(nucelPath)
+  const problems = findConfigProblems(text, schema)
+  for (const problem of problems) {
+    core.error(problem.message, {
+      title: 'Invalid Nucel config',
+      file,
+      startLine: problem.line,
+      startColumn: problem.column,
+    })
+  }
+  if (problems.length > 0) {
+    throw new Error(`${file} has ${problems.length} problem${problems.length === 1 ? '' : 's'}, see the annotations`)
+  }
+  core.info(`${file} is valid according to ${source}`)
+}
@@ -0,0 +1,45 @@
+import * as core from '@actions/core'
+import { Context } from './github.js'
+
+const BRANCH_REF_PREFIX = 'refs/heads/'
+const TAG_REF_PREFIX = 'refs/tags/'
+
+const PULL_REQUEST_EVENTS = ['pull_request', 'pull_request_target']
+
+/**
+ * Maps the workflow context to the `NUCEL_*` variables `nucel deploy` reads to label previews and deployments.
+ * Variables that do not apply to the event are left out.
+ */
+export const getDeploymentVariables = (context: Context): Record<string, string> => {
+  const variables: Record<string, string | undefined> = {
+    NUCEL_EVENT_NAME: context.eventName,
+    NUCEL_COMMIT_SHA: context.sha,
+    NUCEL_ACTOR: context.actor,
+    NUCEL_RUN_URL: context.runUrl,
+  }
+
+  if (PULL_REQUEST_EVENTS.includes(context.eventName) && context.payload.pull_request) {
+    // GITHUB_SHA is the test merge commit here; the head commit is what gets deployed as a preview
+    const pullRequest = context.payload.pull_request
+    variables.NUCEL_COMMIT_SHA = pullRequest.head.sha
+    variables.NUCEL_BRANCH = pullRequest.head.ref
+    variables.NUCEL_PR_NUMBER = String(pullRequest.number)
+    variables.NUCEL_PR_HEAD_REF = pullRequest.head.ref
+  } else if (context.eventName === 'release' && context.payload.release) {
+    variables.NUCEL_TAG = context.payload.release.tag_name
+  } else if (context.ref.startsWith(BRANCH_REF_PREFIX)) {
+    variables.NUCEL_BRANCH = context.ref.slice(BRANCH_REF_PREFIX.length)
+  } else if (context.ref.startsWith(TAG_REF_PREFIX)) {
+    variables.NUCEL_TAG = context.ref.slice(TAG_REF_PREFIX.length)
+  }
+
+  return Object.fromEntries(Object.entries(variables).filter((entry): entry is [string, string] => !!entry[1]))
+}
+
+export const exportDeploymentVariables = (context: Context): void => {
+  const variables = getDeploymentVariables(context)
+  for (const [name, value] of Object.entries(variables)) {
+    core.exportVariable(name, value)
+  }
+  core.info(`Exported deployment context: ${Object.keys(variables).join(', ')}`)
+}
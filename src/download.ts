@@ -0,0 +1,84 @@
+import * as core from '@actions/core'
+import { setTimeout as sleep } from 'timers/promises'
+import { downloadFile } from './http.js'
+
+const BASE_DELAY_MS = 1000
+const MAX_DELAY_MS = 30000
+
+export type DownloadSource = {
+  url: string
+  headers: Record<string, string>
+}
+
+export type DownloadResult = {
+  path: string
+  url: string
+}
+
+type AttemptResult = DownloadResult | { retry: boolean; notFound: boolean; message: string }
+
+const getStatusCode = (error: unknown): number | undefined => (error as { httpStatusCode?: number }).httpStatusCode
+
+// 408 and 429 are worth retrying like server errors; any other client error will not change on retry
+const isRetryable = (statusCode: number | undefined): boolean =>
+  statusCode === undefined || statusCode >= 500 || statusCode === 408 || statusCode === 429
+
+// Exponential backoff with up to 50% jitter, so parallel jobs do not retry in lockstep
+const getBackoffDelay = (attempt: number): number => {
+  const delay = Math.min(BASE_DELAY_MS * 2 ** (attempt - 1), MAX_DELAY_MS)
+  return Math.round(delay * (1 + Math.random() * 0.5))
+}
+
+const attemptDownload = async (source: DownloadSource, dest: string): Promise<AttemptResult> => {
+  try {
+    // One request per attempt, so the retries are exactly the ones counted here
+    const downloadPath = await downloadFile(source.url, dest, source.headers)
+    core.info(`Downloaded to: ${downloadPath}`)
+    return { path: downloadPath, url: source.url }
+  } catch (error) {
+    const statusCode = getStatusCode(error)
+    core.info(`Download failed: ${error}`)
+    return {
+      retry: isRetryable(statusCode),
+      notFound: statusCode === 404,
+      message: `${source.url}: ${statusCode === 404 ? 'not found' : error}`,
+    }
+  }
+}
+
+/**
+ * Downloads the first source that succeeds to `dest`, retrying server errors and timeouts with backoff.
+ * Client errors move on to the next source right away. Returns the file and the URL it came from.
+ */
+export const downloadWithFallback = async (
+  sources: DownloadSource[],
+  description: string,
+  attempts: number,
+  dest: string,
+): Promise<DownloadResult> => {
+  const failures: { notFound: boolean; message: string }[] = []
+
+  for (const source of sources) {
+    for (let attempt = 1; attempt <= attempts; attempt++) {
+      const result = await core.group(`Downloading ${description} from ${source.url} (attempt ${attempt}/${attempts})`, () =>
+        attemptDownload(source, dest),
+      )
+      if ('path' in result) {
+        return result
+      }
+
+      if (!result.retry || attempt === attempts) {
+        failures.push(result)
+        break
+      }
+      const delay = getBackoffDelay(attempt)
+      core.info(`Retrying in ${delay}ms`)
+      await sleep(delay)
+    }
+  }
+
+  if (failures.every((failure) => failure.notFound)) {
+    throw new Error(`${description} is not published: ${failures.map((failure) => failure.message).join(', ')}`)
+  }
+  throw new Error(`Failed to download ${description}: ${failures.map((failure) => failure.message).join(', ')}`)
+}
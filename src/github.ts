@@ -2,18 +2,26 @@ import { strict as assert } from 'assert'
 import * as fs from 'fs/promises'
 
 export type Context = {
+  eventName: string
   repo: {
     owner: string
     repo: string
   }
   sha: string
+  ref: string
+  actor: string
+  runUrl: string
   payload: any
 }
 
 export const getContext = async (): Promise<Context> => {
   return {
+    eventName: getEnv('GITHUB_EVENT_NAME'),
     repo: getRepo(),
     sha: getEnv('GITHUB_SHA'),
+    ref: process.env.GITHUB_REF ?? '',
+    actor: process.env.GITHUB_ACTOR ?? '',
+    runUrl: getRunUrl(),
     payload: JSON.parse(await fs.readFile(getEnv('GITHUB_EVENT_PATH'), 'utf-8')),
   }
 }
@@ -23,6 +31,11 @@ const getRepo = () => {
   return { owner, repo }
 }
 
+const getRunUrl = () => {
+  const serverUrl = process.env.GITHUB_SERVER_URL || 'https://github.com'
+  return `${serverUrl}/${getEnv('GITHUB_REPOSITORY')}/actions/runs/${getEnv('GITHUB_RUN_ID')}`
+}
+
 const getEnv = (name: string): string => {
   assert(process.env[name], `${name} is required`)
   return process.env[name]
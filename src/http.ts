@@ -0,0 +1,34 @@
+import * as fs from 'fs'
+import * as path from 'path'
+import { Readable } from 'stream'
+import { pipeline } from 'stream/promises'
+import type { ReadableStream } from 'stream/web'
+
+export class HttpError extends Error {
+  constructor(
+    readonly httpStatusCode: number,
+    message: string,
+  ) {
+    super(message)
+  }
+}
+
+/**
+ * Downloads `url` to `dest` with a single request and no retries of its own, removing a partial file on
+ * failure. It goes through fetch, so the proxy and CA settings from configureNetwork apply.
+ */
+export const downloadFile = async (url: string, dest: string, headers: Record<string, string>): Promise<string> => {
+  const response = await fetch(url, { headers })
+  if (!response.ok || !response.body) {
+    throw new HttpError(response.status, `Unexpected HTTP response: ${response.status} ${response.statusText}`)
+  }
+
+  await fs.promises.mkdir(path.dirname(dest), { recursive: true })
+  try {
+    await pipeline(Readable.fromWeb(response.body as ReadableStream), fs.createWriteStream(dest))
+  } catch (error) {
+    await fs.promises.rm(dest, { force: true })
+    throw error
+  }
+  return dest
+}
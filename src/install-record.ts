@@ -0,0 +1,56 @@
+import * as fs from 'fs/promises'
+import * as path from 'path'
+
+// Kept next to the binary, so it travels with the tool cache entry into the Actions cache
+const INSTALL_RECORD_NAME = 'nucel-install.json'
+
+export type InstallRecord = {
+  // SHA-256 digest of the archive the binary was extracted from
+  sha256: string
+  // Whether that digest matched `checksum` or the release's SHA256SUMS
+  verified: boolean
+  // Whether the archive's Sigstore bundle was verified
+  provenance: boolean
+}
+
+export type ReuseRequirements = {
+  // The digest the archive must have, when the release is known
+  expectedSha256?: string | null
+  verifyProvenance?: boolean
+  allowUnverified?: boolean
+}
+
+export const writeInstallRecord = async (toolDir: string, record: InstallRecord): Promise<void> => {
+  await fs.writeFile(path.join(toolDir, INSTALL_RECORD_NAME), JSON.stringify(record))
+}
+
+// Entries installed before records were kept, or with a broken record, have none
+export const readInstallRecord = async (toolDir: string): Promise<InstallRecord | null> => {
+  try {
+    const record = JSON.parse(await fs.readFile(path.join(toolDir, INSTALL_RECORD_NAME), 'utf-8')) as InstallRecord
+    return typeof record?.sha256 === 'string' ? record : null
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Returns why an installed binary cannot be reused under the requirements, or null when it can.
+ * Without a record nothing is known about its archive, so only allow-unverified reuses it.
+ */
+export const findReuseMismatch = (record: InstallRecord | null, requirements: ReuseRequirements): string | null => {
+  if (requirements.verifyProvenance && !record?.provenance) {
+    return 'the provenance of its archive was not verified'
+  }
+  if (!record) {
+    return requirements.allowUnverified ? null : 'there is no record of the archive it came from'
+  }
+  if (requirements.expectedSha256) {
+    return record.sha256 === requirements.expectedSha256
+      ? null
+      : `its archive has digest ${record.sha256}, expected ${requirements.expectedSha256}`
+  }
+  return record.verified || record.provenance || requirements.allowUnverified
+    ? null
+    : 'its archive was installed without verification'
+}
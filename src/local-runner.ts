@@ -0,0 +1,225 @@
+import * as fs from 'fs/promises'
+import * as path from 'path'
+import { parse as parseYaml } from 'yaml'
+
+// Options of the local runner itself; every other --name is an action input
+const RUNNER_OPTIONS = ['event', 'event-name', 'out-dir', 'action']
+const DEFAULT_SHA = '0'.repeat(40)
+const DEFAULT_OUT_DIR = '.local-run'
+
+export type LocalOptions = {
+  inputs: Record<string, string>
+  eventPath?: string
+  eventName?: string
+  outDir: string
+  actionPath: string
+}
+
+export type LocalResult = {
+  outputs: Record<string, string>
+  state: Record<string, string>
+  env: Record<string, string>
+  path: string[]
+  mainFailed: boolean
+  postFailed: boolean
+}
+
+type ActionInput = {
+  default?: string | boolean | number
+}
+
+/**
+ * Parses `--name value` and `--name=value` arguments. Flags without a value, like `--check-latest`, are true.
+ */
+export const parseLocalArgs = (argv: string[]): Omit<LocalOptions, 'actionPath'> & { actionPath?: string } => {
+  const values: Record<string, string> = {}
+  for (let index = 0; index < argv.length; index++) {
+    const match = /^--([^=]+)(?:=(.*))?$/s.exec(argv[index])
+    if (!match) {
+      throw new Error(`Unexpected argument "${argv[index]}", expected --<input> <value>`)
+    }
+    const [, name, inlineValue] = match
+    const next = argv[index + 1]
+    if (inlineValue !== undefined) {
+      values[name] = inlineValue
+    } else if (next !== undefined && !next.startsWith('--')) {
+      values[name] = next
+      index++
+    } else {
+      values[name] = 'true'
+    }
+  }
+
+  const { event, 'event-name': eventName, 'out-dir': outDir, action, ...inputs } = values
+  return {
+    inputs,
+    eventPath: event,
+    eventName,
+    outDir: outDir || DEFAULT_OUT_DIR,
+    actionPath: action,
+  }
+}
+
+// Reads the inputs of action.yaml, with the defaults the runner would fill in
+export const readActionInputs = async (actionPath: string): Promise<Record<string, string>> => {
+  const action = parseYaml(await fs.readFile(actionPath, 'utf-8')) as { inputs?: Record<string, ActionInput> }
+  const defaults: Record<string, string> = {}
+  for (const [name, input] of Object.entries(action.inputs ?? {})) {
+    const value = String(input?.default ?? '')
+    // Expressions cannot be evaluated here; the inputs only use github.token, and locally the server is github.com
+    defaults[name] = value.startsWith('${{') ? (value.includes('github.token') ? (process.env.GITHUB_TOKEN ?? '') : '') : value
+  }
+  return defaults
+}
+
+/**
+ * Parses a file written with the runner's file commands (GITHUB_OUTPUT, GITHUB_STATE, GITHUB_ENV):
+ * `name=value` lines and `name<<delimiter` blocks.
+ */
+export const parseFileCommands = (text: string): Record<string, string> => {
+  const values: Record<string, string> = {}
+  const lines = text.split(/\r?\n/)
+  for (let index = 0; index < lines.length; index++) {
+    const line = lines[index]
+    if (!line) {
+      continue
+    }
+    const heredoc = /^([^=]+?)<<(.+)$/.exec(line)
+    if (heredoc) {
+      const [, name, delimiter] = heredoc
+      const end = lines.indexOf(delimiter, index + 1)
+      if (end === -1) {
+        throw new Error(`Missing delimiter ${delimiter} for ${name}`)
+      }
+      values[name] = lines.slice(index + 1, end).join('\n')
+      index = end
+    } else {
+      const separator = line.indexOf('=')
+      values[line.slice(0, separator)] = line.slice(separator + 1)
+    }
+  }
+  return values
+}
+
+const readFileCommands = async (filePath: string): Promise<Record<string, string>> =>
+  parseFileCommands(await fs.readFile(filePath, 'utf-8'))
+
+const getInputVariable = (name: string): string => `INPUT_${name.replace(/ /g, '_').toUpperCase()}`
+
+// Inferred from the payload, unless --event-name says otherwise
+const getEventName = (payload: any): string => {
+  if (payload.pull_request) return 'pull_request'
+  if (payload.release) return 'release'
+  return payload.ref ? 'push' : 'workflow_dispatch'
+}
+
+// Variables already set win, then whatever the payload has; pull requests build their head commit
+const getEventEnv = (payload: any, eventName: string, eventPath: string): Record<string, string> => ({
+  GITHUB_EVENT_PATH: eventPath,
+  GITHUB_EVENT_NAME: eventName,
+  GITHUB_REPOSITORY: process.env.GITHUB_REPOSITORY || payload.repository?.full_name || 'local/repository',
+  GITHUB_SHA: process.env.GITHUB_SHA || payload.pull_request?.head?.sha || payload.after || DEFAULT_SHA,
+  GITHUB_REF: process.env.GITHUB_REF || (payload.pull_request ? `refs/pull/${payload.pull_request.number}/merge` : payload.ref || ''),
+  GITHUB_ACTOR: process.env.GITHUB_ACTOR || payload.sender?.login || 'local',
+  GITHUB_RUN_ID: process.env.GITHUB_RUN_ID || '1',
+})
+
+// Sets the variables for the duration of fn, and restores the environment afterwards
+const withEnv = async <T>(variables: Record<string, string>, fn: () => Promise<T>): Promise<T> => {
+  const original = { ...process.env }
+  Object.assign(process.env, variables)
+  try {
+    return await fn()
+  } finally {
+    for (const name of Object.keys(process.env)) {
+      if (!(name in original)) {
+        delete process.env[name]
+      }
+    }
+    Object.assign(process.env, original)
+  }
+}
+
+// core.setFailed sets the exit code instead of throwing
+const runPhase = async (phase: () => Promise<void>): Promise<boolean> => {
+  process.exitCode = undefined
+  await phase()
+  const failed = !!process.exitCode
+  process.exitCode = undefined
+  return failed
+}
+
+/**
+ * Runs the main step and then the post step of the action in this process, the way the runner would:
+ * inputs and defaults from action.yaml, the event payload, and the file commands written to `outDir`.
+ * State, exported variables and PATH entries of the main step are passed on to the post step.
+ */
+export const runLocally = async (options: LocalOptions, step: () => Promise<void>): Promise<LocalResult> => {
+  const defaults = await readActionInputs(options.actionPath)
+  const unknown = Object.keys(options.inputs).filter((name) => !(name in defaults))
+  if (unknown.length > 0) {
+    throw new Error(
+      `Unknown input${unknown.length === 1 ? '' : 's'} ${unknown.map((name) => `--${name}`).join(', ')}. The action has ${Object.keys(defaults).join(', ')}, and the runner takes ${RUNNER_OPTIONS.join(', ')}`,
+    )
+  }
+
+  const outDir = path.resolve(options.outDir)
+  await fs.mkdir(outDir, { recursive: true })
+  const files = {
+    GITHUB_OUTPUT: path.join(outDir, 'outputs'),
+    GITHUB_STATE: path.join(outDir, 'state'),
+    GITHUB_ENV: path.join(outDir, 'env'),
+    GITHUB_PATH: path.join(outDir, 'path'),
+    GITHUB_STEP_SUMMARY: path.join(outDir, 'summary.md'),
+  }
+  for (const file of Object.values(files)) {
+    await fs.writeFile(file, '')
+  }
+  const runnerTemp = path.join(outDir, 'temp')
+  await fs.mkdir(runnerTemp, { recursive: true })
+
+  // Without an event, the run looks like a workflow_dispatch without inputs
+  const eventPath = options.eventPath ? path.resolve(options.eventPath) : path.join(outDir, 'event.json')
+  if (!options.eventPath) {
+    await fs.writeFile(eventPath, '{}\n')
+  }
+  const payload = JSON.parse(await fs.readFile(eventPath, 'utf-8'))
+
+  const inputs = Object.fromEntries(
+    Object.entries(defaults).map(([name, value]) => [
+      getInputVariable(name),
+      options.inputs[name] ?? process.env[getInputVariable(name)] ?? value,
+    ]),
+  )
+  const env = {
+    ...inputs,
+    ...files,
+    ...getEventEnv(payload, options.eventName || getEventName(payload), eventPath),
+    CI: 'true',
+    GITHUB_ACTIONS: 'true',
+    GITHUB_WORKSPACE: process.env.GITHUB_WORKSPACE || process.cwd(),
+    RUNNER_TEMP: runnerTemp,
+    // Shared between runs, so the tool cache works as on a self-hosted runner
+    RUNNER_TOOL_CACHE: process.env.RUNNER_TOOL_CACHE || path.join(outDir, 'tool-cache'),
+  }
+
+  return await withEnv(env, async () => {
+    const mainFailed = await runPhase(step)
+
+    // The runner passes the state to the post step as STATE_* variables
+    const state = await readFileCommands(files.GITHUB_STATE)
+    const exported = await readFileCommands(files.GITHUB_ENV)
+    const addedPaths = (await fs.readFile(files.GITHUB_PATH, 'utf-8')).split(/\r?\n/).filter(Boolean)
+    const postEnv = Object.fromEntries(Object.entries(state).map(([name, value]) => [`STATE_${name}`, value]))
+    const postFailed = state.isPost ? await withEnv(postEnv, () => runPhase(step)) : false
+
+    return {
+      outputs: await readFileCommands(files.GITHUB_OUTPUT),
+      state,
+      env: exported,
+      path: addedPaths,
+      mainFailed,
+      postFailed,
+    }
+  })
+}
@@ -0,0 +1,25 @@
+import * as path from 'path'
+import { fileURLToPath } from 'url'
+import { main } from './main.js'
+import { parseLocalArgs, runLocally } from './local-runner.js'
+
+// Runs the action outside of GitHub Actions, e.g. node dist/local/index.js --version 1.2.3 --event tests/fixtures/events/push.json
+const options = parseLocalArgs(process.argv.slice(2))
+// The bundle lives in dist/local, two levels below action.yaml
+const actionPath = options.actionPath ?? path.resolve(path.dirname(fileURLToPath(import.meta.url)), '..', '..', 'action.yaml')
+
+try {
+  const result = await runLocally({ ...options, actionPath }, main)
+  const outDir = path.resolve(options.outDir)
+  console.log(`\nOutputs, state, env, path and summary.md are in ${outDir}`)
+  for (const [name, value] of Object.entries(result.outputs)) {
+    console.log(`  ${name}: ${value}`)
+  }
+  if (result.mainFailed || result.postFailed) {
+    console.error(`The ${result.mainFailed ? 'main' : 'post'} step failed`)
+    process.exitCode = 1
+  }
+} catch (error) {
+  console.error(error instanceof Error ? error.message : error)
+  process.exitCode = 1
+}
@@ -0,0 +1,122 @@
+import * as core from '@actions/core'
+import * as crypto from 'crypto'
+import * as fs from 'fs/promises'
+import * as os from 'os'
+import * as path from 'path'
+import { setTimeout as sleep } from 'timers/promises'
+
+const POLL_INTERVAL_MS = 1000
+// Holders refresh their lock, so one this much older than its last refresh was left by a job that died
+const STALE_AFTER_MS = 10 * 60 * 1000
+
+export type LockOptions = {
+  timeoutMs: number
+  staleMs?: number
+}
+
+type LockOwner = {
+  pid: number
+  hostname: string
+  createdAt: string
+}
+
+const isProcessAlive = (pid: number): boolean => {
+  try {
+    process.kill(pid, 0)
+    return true
+  } catch (error) {
+    // EPERM means the process exists but belongs to another user
+    return (error as NodeJS.ErrnoException).code === 'EPERM'
+  }
+}
+
+const readOwner = async (lockPath: string): Promise<{ owner?: LockOwner; content: string; ageMs: number } | null> => {
+  try {
+    const [content, stats] = await Promise.all([fs.readFile(lockPath, 'utf-8'), fs.stat(lockPath)])
+    let owner: LockOwner | undefined
+    try {
+      owner = JSON.parse(content)
+    } catch {
+      // A lock file caught halfway through being written has no owner yet; only its age counts
+    }
+    return { owner, content, ageMs: Date.now() - stats.mtimeMs }
+  } catch {
+    return null
+  }
+}
+
+const describeOwner = (owner?: LockOwner): string =>
+  owner ? `process ${owner.pid} on ${owner.hostname} since ${owner.createdAt}` : 'an unknown process'
+
+// A live process on this host keeps its lock however long it runs. Jobs on other hosts sharing the directory
+// can only be judged by the age of their lock, which the holder keeps fresh
+const isStale = (owner: LockOwner | undefined, ageMs: number, staleMs: number): boolean =>
+  owner?.hostname === os.hostname() ? !isProcessAlive(owner.pid) : ageMs > staleMs
+
+const tryAcquire = async (lockPath: string, content: string): Promise<boolean> => {
+  try {
+    await fs.writeFile(lockPath, content, { flag: 'wx' })
+    return true
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'EEXIST') {
+      return false
+    }
+    throw error
+  }
+}
+
+/**
+ * Runs `fn` while holding an exclusive lock file, so parallel jobs sharing a directory take turns.
+ * Locks left behind by dead processes are removed. `fn` is told whether it had to wait, in which case
+ * another job may have done its work in the meantime.
+ */
+export const withLock = async <T>(
+  lockPath: string,
+  fn: (waited: boolean) => Promise<T>,
+  { timeoutMs, staleMs = STALE_AFTER_MS }: LockOptions,
+): Promise<T> => {
+  const owner: LockOwner = { pid: process.pid, hostname: os.hostname(), createdAt: new Date().toISOString() }
+  const content = JSON.stringify({ ...owner, id: crypto.randomUUID() })
+  const startTime = Date.now()
+  let waited = false
+
+  await fs.mkdir(path.dirname(lockPath), { recursive: true })
+  while (!(await tryAcquire(lockPath, content))) {
+    const current = await readOwner(lockPath)
+    if (current && isStale(current.owner, current.ageMs, staleMs)) {
+      // Only remove the lock we judged stale, not one another waiter has taken since
+      const latest = await readOwner(lockPath)
+      if (latest?.content === current.content) {
+        core.warning(`Removing stale lock ${lockPath} held by ${describeOwner(current.owner)}`)
+        await fs.rm(lockPath, { force: true })
+      }
+      continue
+    }
+    if (Date.now() - startTime >= timeoutMs) {
+      throw new Error(
+        `Timed out after ${Math.round(timeoutMs / 1000)}s waiting for lock ${lockPath} held by ${describeOwner(current?.owner)}`,
+      )
+    }
+    if (!waited) {
+      core.info(`Waiting for lock ${lockPath} held by ${describeOwner(current?.owner)}`)
+      waited = true
+    }
+    await sleep(POLL_INTERVAL_MS)
+  }
+  core.debug(`Acquired lock ${lockPath}`)
+
+  // Touch the lock well within staleMs, so waiters on other hosts never take it from a slow install
+  const heartbeat = setInterval(() => {
+    const now = new Date()
+    fs.utimes(lockPath, now, now).catch((error) => core.debug(`Failed to refresh lock ${lockPath}: ${error}`))
+  }, staleMs / 3)
+  heartbeat.unref()
+
+  try {
+    return await fn(waited)
+  } finally {
+    clearInterval(heartbeat)
+    await fs.rm(lockPath, { force: true })
+    core.debug(`Released lock ${lockPath}`)
+  }
+}
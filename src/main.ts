@@ -0,0 +1,72 @@
+import * as core from '@actions/core'
+import { run, cleanup } from './run.js'
+import { getContext } from './github.js'
+import { getVersionSpec } from './version-file.js'
+import { parseHeaders } from './network.js'
+
+// An empty input stays undefined, so run() applies its own default
+const getNumberInput = (name: string): number | undefined => {
+  const value = core.getInput(name, { required: false })
+  return value ? Number(value) : undefined
+}
+
+/**
+ * Runs the step the runner invoked: the post step once the main step has saved its state, the main step otherwise.
+ * The environment is read on each call, so the local runner can run both steps in one process.
+ */
+export const main = async (): Promise<void> => {
+  const isPost = !!process.env.STATE_isPost
+
+  try {
+    if (isPost) {
+      // Post step - cleanup
+      await cleanup()
+    } else {
+      // Mark that the post step should clean up, even when the main step fails halfway
+      core.saveState('isPost', 'true')
+
+      // Main step - installation
+      await run(
+        {
+          version: await getVersionSpec(
+            core.getInput('version', { required: false }),
+            core.getInput('version-file', { required: false }),
+          ),
+          token: core.getInput('token', { required: false }),
+          installPath: core.getInput('install-path', { required: false }),
+          githubToken: core.getInput('github-token', { required: false }),
+          checksum: core.getInput('checksum', { required: false }),
+          allowUnverified: core.getBooleanInput('allow-unverified', { required: false }),
+          verifyProvenance: core.getBooleanInput('verify-provenance', { required: false }),
+          downloadBaseUrl: core.getInput('download-base-url', { required: false }),
+          assetNamePattern: core.getInput('asset-name-pattern', { required: false }),
+          downloadHeaders: parseHeaders(core.getInput('download-headers', { required: false })),
+          caFile: core.getInput('ca-file', { required: false }),
+          downloadFallbackUrls: core.getMultilineInput('download-fallback-urls', { required: false }),
+          downloadRetries: getNumberInput('download-retries'),
+          problemMatcher: core.getBooleanInput('problem-matcher', { required: false }),
+          command: core.getInput('command', { required: false }),
+          workingDirectory: core.getInput('working-directory', { required: false }),
+          prComment: core.getBooleanInput('pr-comment', { required: false }),
+          prCommentToken: core.getInput('pr-comment-token', { required: false }),
+          checkLatest: core.getBooleanInput('check-latest', { required: false }),
+          defaultVersion: core.getInput('default-version', { required: false }),
+          trackUsage: core.getBooleanInput('track-usage', { required: false }),
+          minVersion: core.getInput('min-version', { required: false }),
+          denyVersions: core.getInput('deny-versions', { required: false }),
+          releasePolicy: core.getBooleanInput('release-policy', { required: false }),
+          lockTimeout: getNumberInput('lock-timeout'),
+          validateConfig: core.getBooleanInput('validate-config', { required: false }),
+          configFile: core.getInput('config-file', { required: false }),
+          installSource: core.getInput('install-source', { required: false }),
+          npmRegistryUrl: core.getInput('npm-registry-url', { required: false }),
+          npmToken: core.getInput('npm-token', { required: false }),
+        },
+        await getContext(),
+      )
+    }
+  } catch (e) {
+    core.setFailed(e instanceof Error ? e : String(e))
+    console.error(e)
+  }
+}
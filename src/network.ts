@@ -0,0 +1,52 @@
+import * as core from '@actions/core'
+import * as fs from 'fs/promises'
+import * as tls from 'tls'
+import { EnvHttpProxyAgent, setGlobalDispatcher } from 'undici'
+
+// Available from Node 22.19 and 24.5, not yet in @types/node 22
+type TLSWithDefaultCA = typeof tls & {
+  getCACertificates?: (type: 'default') => string[]
+  setDefaultCACertificates?: (certs: string[]) => void
+}
+
+const hasProxyEnv = (): boolean =>
+  ['HTTPS_PROXY', 'https_proxy', 'HTTP_PROXY', 'http_proxy'].some((name) => !!process.env[name])
+
+/**
+ * Applies the proxy environment and an extra CA bundle to every request the action makes.
+ * fetch only honors HTTPS_PROXY/NO_PROXY through the undici dispatcher.
+ */
+export const configureNetwork = async (caFile?: string): Promise<void> => {
+  if (caFile) {
+    const ca = await fs.readFile(caFile, 'utf-8')
+    const { getCACertificates, setDefaultCACertificates } = tls as TLSWithDefaultCA
+    if (!getCACertificates || !setDefaultCACertificates) {
+      throw new Error('ca-file requires Node 22.19 or later; set NODE_EXTRA_CA_CERTS on the runner instead')
+    }
+    setDefaultCACertificates([...getCACertificates('default'), ca])
+    core.info(`Trusting CA certificates from ${caFile}`)
+  }
+
+  if (hasProxyEnv()) {
+    setGlobalDispatcher(new EnvHttpProxyAgent())
+    core.info('Using proxy settings from the environment')
+  }
+}
+
+// Parses the `download-headers` input: one `Name: value` pair per line
+export const parseHeaders = (input: string): Record<string, string> => {
+  const headers: Record<string, string> = {}
+  for (const line of input.split(/\r?\n/)) {
+    if (!line.trim()) {
+      continue
+    }
+    const separator = line.indexOf(':')
+    if (separator <= 0) {
+      throw new Error('download-headers must contain one "Name: value" pair per line')
+    }
+    const value = line.slice(separator + 1).trim()
+    headers[line.slice(0, separator).trim()] = value
+    core.setSecret(value)
+  }
+  return headers
+}
@@ -0,0 +1,108 @@
+import * as core from '@actions/core'
+import * as exec from '@actions/exec'
+import * as fs from 'fs/promises'
+import * as path from 'path'
+import * as semver from 'semver'
+import { isChannel } from './releases.js'
+
+export const NPM_PACKAGE = '@nucel.cloud/cli'
+const DEFAULT_REGISTRY_URL = 'https://registry.npmjs.org/'
+// npm expands ${...} in .npmrc, so the token is only ever in the environment of the npm process
+const TOKEN_ENV = 'NUCEL_NPM_TOKEN'
+
+export type NpmOptions = {
+  registryUrl?: string
+  token?: string
+  // Private to this run, since it holds the generated .npmrc
+  workDir: string
+}
+
+type NpmConfig = {
+  args: string[]
+  env: Record<string, string>
+}
+
+/**
+ * Points npm at the registry and its token through a .npmrc of our own. Without either,
+ * the runner's npm configuration (e.g. from actions/setup-node) is used as is.
+ */
+const getNpmConfig = async ({ registryUrl, token, workDir }: NpmOptions): Promise<NpmConfig> => {
+  const env = { ...process.env } as Record<string, string>
+  if (!registryUrl && !token) {
+    return { args: [], env }
+  }
+
+  const registry = new URL(registryUrl || DEFAULT_REGISTRY_URL)
+  const lines = [`registry=${registry.href}`]
+  if (token) {
+    // Auth is scoped to the registry URL without its protocol, e.g. //npm.pkg.github.com/
+    lines.push(`//${registry.host}${registry.pathname.replace(/\/?$/, '/')}:_authToken=\${${TOKEN_ENV}}`)
+    env[TOKEN_ENV] = token
+  }
+  const npmrcPath = path.join(workDir, '.npmrc')
+  await fs.writeFile(npmrcPath, `${lines.join('\n')}\n`)
+  return { args: ['--userconfig', npmrcPath], env }
+}
+
+// Channels are published as dist-tags of the same name; `stable` is npm's `latest`
+const getNpmSpec = (spec: string): string => (spec === 'stable' ? 'latest' : spec)
+
+/**
+ * Resolves a version spec or channel to the exact package version to install.
+ */
+export const resolveNpmVersion = async (spec: string, options: NpmOptions): Promise<string> => {
+  const { args, env } = await getNpmConfig(options)
+  const packageSpec = `${NPM_PACKAGE}@${getNpmSpec(spec)}`
+  const output = await exec.getExecOutput('npm', ['view', packageSpec, 'version', '--json', ...args], {
+    env,
+    ignoreReturnCode: true,
+    silent: true,
+  })
+  if (output.exitCode !== 0) {
+    throw new Error(`Failed to resolve ${packageSpec} from npm: ${output.stderr.trim() || `exit code ${output.exitCode}`}`)
+  }
+
+  // A single match is printed as a string, several as an array
+  const parsed: unknown = output.stdout.trim() ? JSON.parse(output.stdout) : []
+  const versions = (Array.isArray(parsed) ? parsed : [parsed]).filter(
+    (version): version is string => typeof version === 'string' && semver.valid(version) !== null,
+  )
+  // Ranges never pick up a prerelease unless they ask for one, same as with releases
+  const [version] = semver.rsort(isChannel(spec) || spec === 'latest' ? versions : versions.filter((v) => semver.satisfies(v, spec)))
+  if (!version) {
+    throw new Error(`No version of ${NPM_PACKAGE} matches "${spec}"`)
+  }
+  return version
+}
+
+export const getNpmBinaryPath = (platform: string): string =>
+  path.join('node_modules', '.bin', platform === 'win32' ? 'nucel.cmd' : 'nucel')
+
+/**
+ * Installs the package at exactly `version` into `prefix`, isolated from any global or project packages.
+ * Returns the path of the executable npm linked for it.
+ */
+export const installNpmPackage = async (
+  version: string,
+  prefix: string,
+  platform: string,
+  options: NpmOptions,
+): Promise<string> => {
+  const { args, env } = await getNpmConfig(options)
+  await fs.mkdir(prefix, { recursive: true })
+  await core.group(`Installing ${NPM_PACKAGE}@${version} from npm`, () =>
+    exec.exec(
+      'npm',
+      ['install', `${NPM_PACKAGE}@${version}`, '--prefix', prefix, '--save-exact', '--no-audit', '--no-fund', ...args],
+      { env },
+    ),
+  )
+
+  const binaryPath = path.join(prefix, getNpmBinaryPath(platform))
+  try {
+    await fs.access(binaryPath)
+  } catch {
+    throw new Error(`${NPM_PACKAGE}@${version} did not install a nucel executable at ${binaryPath}`)
+  }
+  return binaryPath
+}
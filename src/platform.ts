@@ -0,0 +1,103 @@
+import * as core from '@actions/core'
+import * as fs from 'fs'
+
+export type PlatformInfo = {
+  platform: 'linux' | 'darwin' | 'win32'
+  arch: 'x64' | 'arm64' | 'armv7'
+  libc?: 'glibc' | 'musl'
+  // Release target name, e.g. linux-x64 or linux-arm64-musl
+  target: string
+  ext: string
+  binaryName: string
+}
+
+type Target = Omit<PlatformInfo, 'target' | 'ext' | 'binaryName'>
+
+// Targets the nucel release workflow publishes
+const SUPPORTED_TARGETS: Target[] = [
+  { platform: 'linux', arch: 'x64', libc: 'glibc' },
+  { platform: 'linux', arch: 'arm64', libc: 'glibc' },
+  { platform: 'linux', arch: 'armv7', libc: 'glibc' },
+  { platform: 'linux', arch: 'x64', libc: 'musl' },
+  { platform: 'linux', arch: 'arm64', libc: 'musl' },
+  { platform: 'darwin', arch: 'x64' },
+  { platform: 'darwin', arch: 'arm64' },
+  { platform: 'win32', arch: 'x64' },
+  { platform: 'win32', arch: 'arm64' },
+]
+
+const getTargetName = ({ platform, arch, libc }: Target): string =>
+  `${platform}-${arch}${libc === 'musl' ? '-musl' : ''}`
+
+export const getSupportedTargets = (): string[] => SUPPORTED_TARGETS.map(getTargetName)
+
+const detectLibc = (): 'glibc' | 'musl' => {
+  // Node reports the glibc it runs against; musl builds leave this out
+  const header = (process.report?.getReport() as { header?: { glibcVersionRuntime?: string } } | undefined)?.header
+  if (header?.glibcVersionRuntime) {
+    return 'glibc'
+  }
+  try {
+    if (fs.readdirSync('/lib').some((name) => name.startsWith('ld-musl-'))) {
+      return 'musl'
+    }
+  } catch {
+    // Fall through to glibc
+  }
+  core.debug('Could not detect the C library, assuming glibc')
+  return 'glibc'
+}
+
+const detectArch = (platform: string): string => {
+  const arch = process.arch
+  if (arch === 'arm') {
+    const armVersion = (process.config.variables as { arm_version?: string }).arm_version
+    return armVersion === '7' ? 'armv7' : `armv${armVersion ?? '?'}`
+  }
+  // x64 Node runs emulated on Windows on ARM; the native architecture is what we want
+  if (platform === 'win32' && [process.env.PROCESSOR_ARCHITECTURE, process.env.PROCESSOR_ARCHITEW6432].includes('ARM64')) {
+    return 'arm64'
+  }
+  return arch
+}
+
+/**
+ * Thrown when no release asset exists for the runner, so the npm package can be installed instead.
+ */
+export class UnsupportedPlatformError extends Error {}
+
+export type DetectedPlatform = {
+  platform: string
+  arch: string
+  libc?: 'glibc' | 'musl'
+  target: string
+}
+
+// Also works on runners without a release target, e.g. for installing the npm package
+export const detectPlatform = (): DetectedPlatform => {
+  const platform = process.platform
+  const arch = detectArch(platform)
+  const libc = platform === 'linux' ? detectLibc() : undefined
+  return { platform, arch, libc, target: getTargetName({ platform, arch, libc } as Target) }
+}
+
+export const getPlatformInfo = (detected = detectPlatform()): PlatformInfo => {
+  const { platform, arch, libc } = detected
+  const target = SUPPORTED_TARGETS.find((t) => t.platform === platform && t.arch === arch && t.libc === libc)
+  if (!target) {
+    throw new UnsupportedPlatformError(
+      `Nucel CLI is not available for ${detected.target}. Supported targets: ${getSupportedTargets().join(', ')}`,
+    )
+  }
+
+  return {
+    ...target,
+    target: getTargetName(target),
+    ext: target.platform === 'win32' ? '.zip' : '.tar.gz',
+    binaryName: target.platform === 'win32' ? 'nucel.exe' : 'nucel',
+  }
+}
+
+// Tool cache directories are per architecture, and musl builds must not be picked up by glibc runners
+export const getToolArch = (platform: Pick<PlatformInfo, 'arch' | 'libc'> | DetectedPlatform): string =>
+  platform.libc === 'musl' ? `${platform.arch}-musl` : platform.arch
@@ -0,0 +1,160 @@
+import * as core from '@actions/core'
+import * as semver from 'semver'
+import { Release, getChannel } from './releases.js'
+
+// Published with the releases, and read from the newest stable release that has it
+export const VERSION_POLICY_ASSET = 'nucel-version-policy.json'
+
+export type VersionStatus = 'deprecated' | 'vulnerable'
+
+export type VersionPolicy = {
+  // Oldest version the Nucel platform still supports
+  minVersion?: string
+  versions?: {
+    range: string
+    status: VersionStatus
+    reason?: string
+    upgradeTo?: string
+  }[]
+}
+
+export type PolicyRules = {
+  minVersion?: string
+  denyVersions: string[]
+  releasePolicy?: VersionPolicy | null
+}
+
+export type PolicyViolation = {
+  message: string
+  // Deprecated versions only warn; everything else fails the step
+  level: 'error' | 'warning'
+  upgradeTo?: string
+}
+
+// Prereleases are compared like any other version, so a denied `<1.4` also covers `1.3.0-beta.1`
+const matches = (version: string, range: string): boolean => semver.satisfies(version, range, { includePrerelease: true })
+
+/**
+ * Checks a version against `min-version`, `deny-versions` and the policy published with the releases.
+ */
+export const findPolicyViolations = (version: string, rules: PolicyRules): PolicyViolation[] => {
+  const violations: PolicyViolation[] = []
+  if (rules.minVersion && semver.lt(version, rules.minVersion)) {
+    violations.push({ message: `it is older than min-version ${rules.minVersion}`, level: 'error' })
+  }
+  const denied = rules.denyVersions.find((range) => matches(version, range))
+  if (denied) {
+    violations.push({ message: `it is denied by deny-versions (${denied})`, level: 'error' })
+  }
+
+  const policy = rules.releasePolicy
+  if (policy?.minVersion && semver.valid(policy.minVersion) && semver.lt(version, policy.minVersion)) {
+    violations.push({
+      message: `the Nucel platform no longer supports versions older than ${policy.minVersion}`,
+      level: 'error',
+    })
+  }
+  for (const entry of policy?.versions ?? []) {
+    if (!semver.validRange(entry.range) || !matches(version, entry.range)) {
+      continue
+    }
+    violations.push({
+      message: `it is ${entry.status}${entry.reason ? ` (${entry.reason})` : ''}`,
+      level: entry.status === 'vulnerable' ? 'error' : 'warning',
+      upgradeTo: entry.upgradeTo,
+    })
+  }
+  return violations
+}
+
+/**
+ * Returns the newest release in the same channel as `version` that the rules allow, if there is one.
+ */
+export const getUpgradeTarget = (version: string, releases: Release[], rules: PolicyRules): string | null => {
+  const channel = getChannel(version)
+  const [target] = semver.rsort(
+    releases
+      .map((release) => release.version)
+      .filter((candidate) => getChannel(candidate) === channel && findPolicyViolations(candidate, rules).length === 0),
+  )
+  return target ?? null
+}
+
+const parseVersionPolicy = (text: string): VersionPolicy => {
+  const policy = JSON.parse(text) as VersionPolicy
+  if (typeof policy !== 'object' || policy === null || (policy.versions !== undefined && !Array.isArray(policy.versions))) {
+    throw new Error('expected an object with minVersion and a versions array')
+  }
+  return policy
+}
+
+/**
+ * Downloads the version policy from the newest stable release that publishes one.
+ * Returns null when no release does.
+ */
+export const fetchVersionPolicy = async (releases: Release[]): Promise<VersionPolicy | null> => {
+  const [release] = releases
+    .filter((release) => !release.prerelease && release.assets.some((asset) => asset.name === VERSION_POLICY_ASSET))
+    .sort((a, b) => semver.rcompare(a.version, b.version))
+  if (!release) {
+    core.info(`No Nucel CLI release publishes ${VERSION_POLICY_ASSET}`)
+    return null
+  }
+
+  const asset = release.assets.find((asset) => asset.name === VERSION_POLICY_ASSET)!
+  const response = await fetch(asset.url, { headers: release.headers })
+  if (!response.ok) {
+    throw new Error(`Failed to download ${asset.url}: ${response.status} ${response.statusText}`)
+  }
+  try {
+    const policy = parseVersionPolicy(await response.text())
+    core.info(`Using the version policy of Nucel CLI ${release.version}`)
+    return policy
+  } catch (error) {
+    throw new Error(`Invalid ${VERSION_POLICY_ASSET} in ${release.tag}: ${error}`)
+  }
+}
+
+/**
+ * Annotates every version the rules do not allow, naming the version to upgrade to, and throws when one
+ * of them is not allowed at all. The release list is only fetched when there is a violation to annotate.
+ */
+export const enforceVersionPolicy = async (
+  versions: string[],
+  rules: PolicyRules,
+  listReleases: () => Promise<Release[]>,
+): Promise<void> => {
+  const rejected: string[] = []
+  for (const version of versions) {
+    const violations = findPolicyViolations(version, rules)
+    if (violations.length === 0) {
+      continue
+    }
+
+    let advice = ''
+    const upgradeTo = violations.find((violation) => violation.upgradeTo)?.upgradeTo
+    if (upgradeTo) {
+      advice = ` Upgrade to ${upgradeTo}.`
+    } else {
+      try {
+        const target = getUpgradeTarget(version, await listReleases(), rules)
+        advice = target ? ` Upgrade to ${target}.` : ` No ${getChannel(version)} release is allowed by the version policy.`
+      } catch (error) {
+        core.warning(`Could not look up a Nucel CLI version to upgrade to: ${error}`)
+      }
+    }
+
+    const failed = violations.some((violation) => violation.level === 'error')
+    const reasons = violations.map((violation) => violation.message).join(', ')
+    const message = `Nucel CLI ${version} is not ${failed ? 'allowed' : 'recommended'}: ${reasons}.${advice}`
+    const annotate = failed ? core.error : core.warning
+    annotate(message, { title: 'Nucel CLI version policy' })
+    if (failed) {
+      rejected.push(version)
+    }
+  }
+
+  if (rejected.length > 0) {
+    throw new Error(`Nucel CLI ${rejected.join(', ')} ${rejected.length === 1 ? 'is' : 'are'} not allowed by the version policy, see the annotations`)
+  }
+}
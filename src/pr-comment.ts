@@ -0,0 +1,87 @@
+import * as core from '@actions/core'
+import { Context } from './github.js'
+
+// Hidden marker that identifies the comment, so later runs edit it instead of adding another one
+export const COMMENT_MARKER = '<!-- setup-nucel:preview -->'
+
+const PER_PAGE = 100
+
+export type PreviewComment = {
+  status: 'success' | 'failure'
+  deploymentUrl?: string
+  commitSha: string
+  cliVersion: string
+  runUrl: string
+}
+
+type IssueComment = {
+  id: number
+  body?: string
+}
+
+export const renderComment = (comment: PreviewComment): string =>
+  [
+    COMMENT_MARKER,
+    '### Nucel preview deployment',
+    '',
+    '| | |',
+    '|---|---|',
+    `| **Status** | ${comment.status === 'success' ? '✅ Ready' : '❌ Failed'} |`,
+    `| **Preview** | ${comment.deploymentUrl ? `[${comment.deploymentUrl}](${comment.deploymentUrl})` : '-'} |`,
+    `| **Commit** | \`${comment.commitSha}\` |`,
+    `| **Nucel CLI** | \`${comment.cliVersion}\` |`,
+    '',
+    `Updated by [workflow run](${comment.runUrl})`,
+    '',
+  ].join('\n')
+
+const request = async <T>(token: string, url: string, init: RequestInit = {}): Promise<T> => {
+  const response = await fetch(url, {
+    ...init,
+    headers: {
+      Accept: 'application/vnd.github+json',
+      Authorization: `Bearer ${token}`,
+      'Content-Type': 'application/json',
+      'X-GitHub-Api-Version': '2022-11-28',
+    },
+  })
+  if (!response.ok) {
+    throw new Error(`GitHub API request ${init.method ?? 'GET'} ${url} failed: ${response.status} ${response.statusText}`)
+  }
+  return (await response.json()) as T
+}
+
+const findComment = async (token: string, issueUrl: string): Promise<IssueComment | undefined> => {
+  for (let page = 1; ; page++) {
+    const comments = await request<IssueComment[]>(token, `${issueUrl}/comments?per_page=${PER_PAGE}&page=${page}`)
+    const comment = comments.find((item) => item.body?.includes(COMMENT_MARKER))
+    if (comment || comments.length < PER_PAGE) {
+      return comment
+    }
+  }
+}
+
+/**
+ * Creates or updates the sticky preview comment on the pull request that triggered the run.
+ * Does nothing outside of pull request events.
+ */
+export const upsertPullRequestComment = async (context: Context, token: string, comment: PreviewComment): Promise<void> => {
+  const pullNumber: number | undefined = context.payload.pull_request?.number
+  if (!pullNumber) {
+    core.info('Not a pull request event, skipping the pull request comment')
+    return
+  }
+
+  const apiUrl = process.env.GITHUB_API_URL || 'https://api.github.com'
+  const repoUrl = `${apiUrl}/repos/${context.repo.owner}/${context.repo.repo}`
+  const body = JSON.stringify({ body: renderComment(comment) })
+
+  const existing = await findComment(token, `${repoUrl}/issues/${pullNumber}`)
+  if (existing) {
+    await request(token, `${repoUrl}/issues/comments/${existing.id}`, { method: 'PATCH', body })
+    core.info(`Updated the preview comment on pull request #${pullNumber}`)
+  } else {
+    await request(token, `${repoUrl}/issues/${pullNumber}/comments`, { method: 'POST', body })
+    core.info(`Added a preview comment to pull request #${pullNumber}`)
+  }
+}
@@ -0,0 +1,29 @@
+import * as core from '@actions/core'
+import * as fs from 'fs/promises'
+import * as path from 'path'
+import matcherJSON from './nucel-matcher.json' with { type: 'json' }
+
+const MATCHER_FILE_NAME = 'nucel-problem-matcher.json'
+
+export const getMatcherOwners = (): string[] => matcherJSON.problemMatcher.map((matcher) => matcher.owner)
+
+/**
+ * Registers the matchers for Nucel CLI errors and warnings, so later steps get file/line annotations.
+ * The runner reads matchers from a file, so the bundled definition is written out first.
+ */
+export const addProblemMatcher = async (workDir: string): Promise<void> => {
+  const matcherPath = path.join(workDir, MATCHER_FILE_NAME)
+  await fs.writeFile(matcherPath, JSON.stringify(matcherJSON))
+  core.info(`::add-matcher::${matcherPath}`)
+  core.saveState('problemMatcher', 'true')
+}
+
+export const removeProblemMatcher = (): void => {
+  if (core.getState('problemMatcher') !== 'true') {
+    return
+  }
+  for (const owner of getMatcherOwners()) {
+    core.info(`::remove-matcher owner=${owner}::`)
+    core.info(`Removed problem matcher ${owner}`)
+  }
+}
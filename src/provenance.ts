@@ -0,0 +1,65 @@
+import * as core from '@actions/core'
+import * as crypto from 'crypto'
+import * as fs from 'fs/promises'
+import { Bundle, bundleFromJSON, isBundleWithDsseEnvelope } from '@sigstore/bundle'
+import { TrustedRoot } from '@sigstore/protobuf-specs'
+import { Verifier, toSignedEntity, toTrustMaterial } from '@sigstore/verify'
+import { Release } from './releases.js'
+import trustedRootJSON from './trusted-root.json' with { type: 'json' }
+
+// Identity of the official nucel release workflow, as recorded in the Fulcio certificate
+const SIGNER_IDENTITY = /^https:\/\/github\.com\/nucel-cloud\/nucel\/\.github\/workflows\/release\.ya?ml@refs\/tags\//
+const SIGNER_ISSUER = 'https://token.actions.githubusercontent.com'
+
+const BUNDLE_SUFFIXES = ['.sigstore.json', '.sigstore']
+
+type InTotoStatement = {
+  subject?: { name: string; digest: Record<string, string> }[]
+}
+
+const downloadBundle = async (release: Release, assetName: string): Promise<Bundle> => {
+  const bundleAsset = release.assets.find((asset) => BUNDLE_SUFFIXES.some((suffix) => asset.name === assetName + suffix))
+  if (!bundleAsset) {
+    throw new Error(`No provenance bundle for ${assetName} in release ${release.tag}`)
+  }
+
+  core.info(`Downloading provenance bundle: ${bundleAsset.url}`)
+  const response = await fetch(bundleAsset.url, { headers: release.headers })
+  if (!response.ok) {
+    throw new Error(`Failed to download provenance bundle: ${response.status} ${response.statusText}`)
+  }
+  return bundleFromJSON(await response.json())
+}
+
+// An attestation signs an in-toto statement, so the archive is bound through the statement's subject digest
+const assertAttestationSubject = (bundle: Bundle, digest: string) => {
+  if (!isBundleWithDsseEnvelope(bundle)) {
+    return
+  }
+  const statement = JSON.parse(bundle.content.dsseEnvelope.payload.toString('utf-8')) as InTotoStatement
+  if (!statement.subject?.some((subject) => subject.digest.sha256 === digest)) {
+    throw new Error(`Provenance attestation does not cover an artifact with sha256:${digest}`)
+  }
+}
+
+/**
+ * Verifies the Sigstore bundle shipped next to the archive, offline against the pinned trusted root.
+ */
+export const verifyProvenance = async (filePath: string, assetName: string, release: Release): Promise<void> => {
+  const bundle = await downloadBundle(release, assetName)
+  const artifact = await fs.readFile(filePath)
+  const digest = crypto.createHash('sha256').update(artifact).digest('hex')
+
+  assertAttestationSubject(bundle, digest)
+
+  const verifier = new Verifier(toTrustMaterial(TrustedRoot.fromJSON(trustedRootJSON)))
+  try {
+    const signer = verifier.verify(toSignedEntity(bundle, isBundleWithDsseEnvelope(bundle) ? undefined : artifact), {
+      subjectAlternativeName: SIGNER_IDENTITY,
+      extensions: { issuer: SIGNER_ISSUER },
+    })
+    core.info(`Provenance verified: signed by ${signer.identity?.subjectAlternativeName}`)
+  } catch (error) {
+    throw new Error(`Provenance verification failed for ${assetName}: ${error}`)
+  }
+}
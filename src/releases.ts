@@ -0,0 +1,176 @@
+import * as core from '@actions/core'
+import * as semver from 'semver'
+import { UnsupportedPlatformError } from './platform.js'
+
+export const DEFAULT_ASSET_NAME_PATTERN = 'nucel-cli-{target}{ext}'
+
+const RELEASES_API_URL = 'https://api.github.com/repos/nucel-cloud/nucel/releases'
+const RELEASES_DOWNLOAD_URL = 'https://github.com/nucel-cloud/nucel/releases/download'
+const PER_PAGE = 100
+const MAX_PAGES = 10
+
+// Prerelease builds are published as e.g. `2.1.0-beta.3` or `2.1.0-canary.20241019.2`
+export const CHANNELS = ['stable', 'beta', 'canary', 'nightly'] as const
+
+export type Channel = (typeof CHANNELS)[number]
+
+export type ReleaseAsset = {
+  name: string
+  url: string
+}
+
+export type Release = {
+  version: string
+  tag: string
+  prerelease: boolean
+  assets: ReleaseAsset[]
+  // Headers to send when downloading the assets (mirror authentication)
+  headers: Record<string, string>
+}
+
+export type ReleaseSource = {
+  // Mirror of the GitHub release downloads, laid out as <baseUrl>/<tag>/<asset name>
+  // and listing its releases in <baseUrl>/releases.json (the GitHub releases API format)
+  baseUrl?: string
+  headers?: Record<string, string>
+  token?: string
+}
+
+type GitHubRelease = {
+  tag_name: string
+  draft: boolean
+  prerelease: boolean
+  assets: { name: string; browser_download_url: string }[]
+}
+
+export const isChannel = (spec: string): spec is Channel => (CHANNELS as readonly string[]).includes(spec)
+
+// Several versions can be installed side by side, e.g. `1.4.2, 2.0.0-beta.3`
+export const parseVersionList = (input: string): string[] =>
+  input
+    .split(/[,\n]/)
+    .map((spec) => spec.trim())
+    .filter(Boolean)
+
+export const isValidVersionSpec = (spec: string): boolean =>
+  spec === 'latest' || isChannel(spec) || semver.validRange(spec) !== null
+
+/**
+ * Returns the semver range of a version spec. Prerelease channels move with every build,
+ * so they have no range and always have to be resolved against the release list.
+ */
+export const getVersionRange = (spec: string): string | null => {
+  if (spec === 'latest' || spec === 'stable') {
+    return '*'
+  }
+  return isChannel(spec) ? null : spec
+}
+
+// The channel is the first prerelease identifier; anything else is a one-off prerelease like `rc`
+export const getChannel = (version: string): string => {
+  const [channel] = semver.prerelease(version) ?? []
+  return channel === undefined ? 'stable' : String(channel)
+}
+
+// The build identifier is the rest of the prerelease, e.g. `20241019.2` for `2.1.0-canary.20241019.2`
+export const getBuild = (version: string): string => (semver.prerelease(version) ?? []).slice(1).join('.')
+
+// Release tags look like `cli-v1.2.3` (or plain `v1.2.3` on older releases)
+export const parseReleaseTag = (tag: string): string | null => {
+  const match = /^(?:cli-)?v(.+)$/.exec(tag)
+  if (!match) {
+    return null
+  }
+  return semver.valid(match[1])
+}
+
+// `nucel --version` prints e.g. `nucel 1.2.3`, `nucel-cli v1.2.3 (abc1234)` or `{"version":"1.2.3"}`
+export const parseVersionOutput = (output: string): string | null => {
+  for (const match of output.matchAll(/\bv?(\d+\.\d+\.\d+(?:-[0-9A-Za-z.-]+)?(?:\+[0-9A-Za-z.-]+)?)/g)) {
+    const version = semver.valid(match[1])
+    if (version) {
+      return version
+    }
+  }
+  return null
+}
+
+export const getAssetUrl = (source: ReleaseSource, tag: string, assetName: string): string =>
+  `${source.baseUrl ?? RELEASES_DOWNLOAD_URL}/${tag}/${assetName}`
+
+const fetchReleasePage = async (url: string, headers: Record<string, string>): Promise<GitHubRelease[]> => {
+  const response = await fetch(url, { headers })
+  if (!response.ok) {
+    throw new Error(`Failed to list Nucel releases: ${response.status} ${response.statusText}`)
+  }
+  return (await response.json()) as GitHubRelease[]
+}
+
+const toRelease = (item: GitHubRelease, source: ReleaseSource): Release | null => {
+  const version = parseReleaseTag(item.tag_name)
+  if (item.draft || !version) {
+    return null
+  }
+  return {
+    version,
+    tag: item.tag_name,
+    prerelease: item.prerelease,
+    assets: item.assets.map((asset) => ({
+      name: asset.name,
+      url: source.baseUrl ? getAssetUrl(source, item.tag_name, asset.name) : asset.browser_download_url,
+    })),
+    headers: source.baseUrl ? (source.headers ?? {}) : {},
+  }
+}
+
+export const listReleases = async (source: ReleaseSource = {}): Promise<Release[]> => {
+  if (source.baseUrl) {
+    const items = await fetchReleasePage(`${source.baseUrl}/releases.json`, source.headers ?? {})
+    return items.map((item) => toRelease(item, source)).filter((release) => release !== null)
+  }
+
+  const releases: Release[] = []
+  for (let page = 1; page <= MAX_PAGES; page++) {
+    const items = await fetchReleasePage(`${RELEASES_API_URL}?per_page=${PER_PAGE}&page=${page}`, {
+      Accept: 'application/vnd.github+json',
+      'X-GitHub-Api-Version': '2022-11-28',
+      ...(source.token ? { Authorization: `Bearer ${source.token}` } : {}),
+    })
+    for (const item of items) {
+      const release = toRelease(item, source)
+      if (release) {
+        releases.push(release)
+      }
+    }
+
+    if (items.length < PER_PAGE) {
+      break
+    }
+  }
+
+  return releases
+}
+
+export const resolveRelease = async (
+  spec: string,
+  getAssetName: (version: string) => string,
+  source: ReleaseSource = {},
+): Promise<Release> => {
+  const releases = await listReleases(source)
+  core.debug(`Found ${releases.length} Nucel releases`)
+
+  const range = getVersionRange(spec)
+  const matching = releases.filter((release) =>
+    range ? semver.satisfies(release.version, range) : getChannel(release.version) === spec,
+  )
+  const candidates = matching
+    .filter((release) => release.assets.some((asset) => asset.name === getAssetName(release.version)))
+    .sort((a, b) => semver.rcompare(a.version, b.version))
+
+  if (candidates.length === 0) {
+    const message = `No Nucel CLI release matching "${spec}" has an asset for this platform`
+    // Only a missing asset is worth trying the npm package for; a version that was never released is not
+    throw matching.length > 0 ? new UnsupportedPlatformError(message) : new Error(message)
+  }
+  return candidates[0]
+}
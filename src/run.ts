@@ -2,231 +2,869 @@ import * as core from '@actions/core'
 import { addPath } from '@actions/core'
 import * as exec from '@actions/exec'
 import * as cache from '@actions/cache'
+import * as io from '@actions/io'
 import * as tc from '@actions/tool-cache'
+import * as crypto from 'crypto'
 import * as fs from 'fs/promises'
 import * as path from 'path'
 import * as os from 'os'
+import * as semver from 'semver'
 import { Context } from './github.js'
+import {
+  DEFAULT_ASSET_NAME_PATTERN,
+  Release,
+  ReleaseSource,
+  getAssetUrl,
+  getBuild,
+  getChannel,
+  isChannel,
+  isValidVersionSpec,
+  listReleases,
+  parseVersionList,
+  parseVersionOutput,
+  resolveRelease,
+} from './releases.js'
+import { getExpectedChecksum, verifyChecksum } from './checksum.js'
+import { InstallRecord, findReuseMismatch, readInstallRecord, writeInstallRecord } from './install-record.js'
+import { verifyProvenance } from './provenance.js'
+import { authenticate, revokeCredentials } from './auth.js'
+import { configureNetwork } from './network.js'
+import { DownloadSource, downloadWithFallback } from './download.js'
+import { extractArchive } from './archive.js'
+import {
+  DetectedPlatform,
+  PlatformInfo,
+  UnsupportedPlatformError,
+  detectPlatform,
+  getPlatformInfo,
+  getToolArch,
+} from './platform.js'
+import { InstallSource, SetupReport, writeJobSummary } from './summary.js'
+import { exportDeploymentVariables, getDeploymentVariables } from './deployment.js'
+import { addProblemMatcher, removeProblemMatcher } from './problem-matcher.js'
+import { runCommand } from './command.js'
+import { DEFAULT_CONFIG_FILE, validateConfig } from './config.js'
+import { createWorkDir, removeWorkDir } from './work-dir.js'
+import { withLock } from './lock.js'
+import { PolicyRules, VersionPolicy, enforceVersionPolicy, fetchVersionPolicy, findPolicyViolations } from './policy.js'
+import { createAliases } from './aliases.js'
+import { installUsageShim, writeUsageSummary } from './usage.js'
+import { NPM_PACKAGE, NpmOptions, getNpmBinaryPath, installNpmPackage, resolveNpmVersion } from './npm.js'
+import { PreviewComment, upsertPullRequestComment } from './pr-comment.js'
+
+const TOOL_NAME = 'nucel'
+const NPM_TOOL_NAME = 'nucel-npm'
+const INSTALL_SOURCES = ['release', 'npm', 'auto']
+const DEFAULT_DOWNLOAD_RETRIES = 2
+const DEFAULT_LOCK_TIMEOUT_SECONDS = 300
 
 type Inputs = {
   version: string
   token?: string
+  githubToken?: string
   installPath?: string
+  checksum?: string
+  allowUnverified?: boolean
+  verifyProvenance?: boolean
+  downloadBaseUrl?: string
+  assetNamePattern?: string
+  downloadHeaders?: Record<string, string>
+  caFile?: string
+  downloadFallbackUrls?: string[]
+  downloadRetries?: number
+  problemMatcher?: boolean
+  command?: string
+  workingDirectory?: string
+  prComment?: boolean
+  prCommentToken?: string
+  checkLatest?: boolean
+  lockTimeout?: number
+  validateConfig?: boolean
+  configFile?: string
+  installSource?: string
+  npmRegistryUrl?: string
+  npmToken?: string
+  defaultVersion?: string
+  trackUsage?: boolean
+  minVersion?: string
+  denyVersions?: string
+  releasePolicy?: boolean
 }
 
-type PlatformInfo = {
-  platform: 'linux' | 'darwin' | 'win32'
-  arch: 'x64' | 'arm64'
-  ext: string
-  binaryName: string
+type Installation = {
+  nucelPath: string
+  version: string
+  source: InstallSource
+  downloadUrl?: string
+  sha256?: string
+  // Installed from an archive that neither a checksum nor provenance verified; kept out of the Actions cache
+  unverified?: boolean
+}
+
+// Whether the binary for a version in the tool cache may be reused, and the digest of the archive it came from
+type ReuseCheck = (version: string) => Promise<{ mismatch: string | null; sha256?: string }>
+
+// npm verifies the package integrity itself, so its installs keep no record
+const reuseAny: ReuseCheck = async () => ({ mismatch: null })
+
+type Setup = {
+  installation: Installation
+  resolvedTime: number
+}
+
+type InstalledVersion = Setup & {
+  spec: string
+  startTime: number
+  installedTime: number
 }
 
+type PolicyCheck = {
+  // Whether an installed CLI of this version may be reused; deprecated versions only warn, so they may
+  allows: (version: string) => Promise<boolean>
+  // Annotates the version's violations and throws when the policy does not allow it
+  enforce: (version: string) => Promise<void>
+}
+
+// Where an install source keeps the CLI in the tool cache
+type ToolLayout = {
+  tool: string
+  arch: string
+  // Relative to the tool directory
+  binaryPath: string
+}
+
+const getReleaseLayout = (platform: PlatformInfo): ToolLayout => ({
+  tool: TOOL_NAME,
+  arch: getToolArch(platform),
+  binaryPath: platform.binaryName,
+})
+
+// The npm package is kept whole, since the executable in node_modules/.bin needs the rest of it
+const getNpmLayout = (detected: DetectedPlatform): ToolLayout => ({
+  tool: NPM_TOOL_NAME,
+  arch: getToolArch(detected),
+  binaryPath: getNpmBinaryPath(detected.platform),
+})
+
 export const run = async (inputs: Inputs, context: Context): Promise<void> => {
+  const startTime = Date.now()
+
   if (!inputs.version || typeof inputs.version !== 'string') {
     throw new Error('version input is required and must be a string')
   }
 
-  if (inputs.version !== 'latest' && !/^\d+\.\d+\.\d+(-[\w\.\-]+)?$/.test(inputs.version)) {
-    throw new Error('version must be "latest" or a valid semantic version (e.g., "1.0.0")')
+  const specs = parseVersionList(inputs.version)
+  if (specs.length === 0 || !specs.every(isValidVersionSpec)) {
+    throw new Error(
+      'version must be "latest", a channel (stable, beta, canary or nightly) or a valid semantic version or range (e.g., "1.0.0", "^1.2", "1.x")',
+    )
   }
 
-  const platform = getPlatformInfo()
-  const cacheKey = `nucel-cli-${inputs.version}-${platform.platform}-${platform.arch}`
+  for (const secret of [inputs.token, inputs.npmToken]) {
+    if (secret) {
+      core.setSecret(secret)
+    }
+  }
 
-  core.info(`Setting up Nucel CLI ${inputs.version} on ${platform.platform}-${platform.arch}`)
+  if (inputs.checksum && !/^[a-fA-F0-9]{64}$/.test(inputs.checksum.trim())) {
+    throw new Error('checksum must be a hex-encoded SHA-256 digest')
+  }
 
-  const cacheHit = await restoreFromCache(cacheKey)
-  if (cacheHit) {
-    core.info('Nucel CLI restored from cache')
-    await setOutputs(cacheHit)
-    return
+  // One digest can only match one archive; with several versions, SHA256SUMS verifies each of them
+  if (inputs.checksum && specs.length > 1) {
+    throw new Error('checksum only applies to a single version; leave it empty to verify each version against its SHA256SUMS')
   }
 
-  const installPath = await installNucelCLI(inputs, platform)
+  if (inputs.downloadRetries !== undefined && !(Number.isInteger(inputs.downloadRetries) && inputs.downloadRetries >= 0)) {
+    throw new Error('download-retries must be a non-negative integer')
+  }
 
-  await saveToCache(cacheKey, installPath)
+  if (inputs.lockTimeout !== undefined && !(Number.isFinite(inputs.lockTimeout) && inputs.lockTimeout >= 0)) {
+    throw new Error('lock-timeout must be a non-negative number of seconds')
+  }
 
-  await setOutputs(installPath)
-}
+  if (inputs.assetNamePattern && !/^[^{}]*(\{(version|target|platform|arch|ext)\}[^{}]*)*$/.test(inputs.assetNamePattern)) {
+    throw new Error('asset-name-pattern only supports the {version}, {target}, {platform}, {arch} and {ext} placeholders')
+  }
 
-const getPlatformInfo = (): PlatformInfo => {
-  const platform = process.platform as 'linux' | 'darwin' | 'win32'
-  const arch = process.arch as 'x64' | 'arm64'
+  if (inputs.defaultVersion && !specs.includes(inputs.defaultVersion)) {
+    throw new Error(`default-version must be one of the versions in version (${specs.join(', ')})`)
+  }
 
-  const platformMap = {
-    linux: { ext: '.tar.gz', binaryName: 'nucel' },
-    darwin: { ext: '.tar.gz', binaryName: 'nucel' },
-    win32: { ext: '.zip', binaryName: 'nucel.exe' }
+  if (inputs.minVersion && !semver.valid(inputs.minVersion)) {
+    throw new Error('min-version must be a valid semantic version (e.g., "1.4.0")')
   }
 
-  return {
-    platform,
-    arch,
-    ...platformMap[platform]
+  const denyVersions = parseVersionList(inputs.denyVersions ?? '')
+  if (!denyVersions.every((range) => semver.validRange(range) !== null)) {
+    throw new Error('deny-versions must be a list of versions or semver ranges (e.g., "1.3.0, <1.2")')
   }
-}
 
-const restoreFromCache = async (cacheKey: string): Promise<string | null> => {
-  try {
-    const cachePath = path.join(process.cwd(), 'nucel-cache')
-    const cacheHit = await cache.restoreCache([cachePath], cacheKey)
+  const installSource = inputs.installSource || 'release'
+  if (!INSTALL_SOURCES.includes(installSource)) {
+    throw new Error('install-source must be "release", "npm" or "auto"')
+  }
 
-    if (cacheHit) {
-      const nucelPath = await findBinaryInCache(cachePath)
-      if (nucelPath && await verifyInstallation(nucelPath)) {
-        return nucelPath
-      }
+  if (inputs.prComment && !inputs.command) {
+    core.warning('pr-comment has no effect without a command')
+  }
+
+  await configureNetwork(inputs.caFile)
+
+  const detected = detectPlatform()
+  core.setOutput('platform', detected.platform)
+  core.setOutput('arch', detected.arch)
+  core.setOutput('libc', detected.libc ?? '')
+
+  const workDir = await createWorkDir()
+
+  const policy = createPolicyCheck(inputs, denyVersions)
+  const installed: InstalledVersion[] = []
+  for (const spec of specs) {
+    const versionStartTime = installed.length === 0 ? startTime : Date.now()
+    const setup = await setupVersion({ ...inputs, version: spec }, detected, workDir, policy)
+    installed.push({ ...setup, spec, startTime: versionStartTime, installedTime: Date.now() })
+  }
+
+  // `nucel` itself is the first version unless default-version picks another
+  const defaultIndex = Math.max(0, specs.indexOf(inputs.defaultVersion ?? ''))
+  const { installation } = installed[defaultIndex]
+  let nucelPath = installation.nucelPath
+  const binaries = [...new Map(installed.map(({ installation }) => [installation.version, installation.nucelPath]))]
+  core.setOutput('versions', JSON.stringify(Object.fromEntries(binaries)))
+  if (specs.length > 1) {
+    const aliasDir = path.join(workDir, 'bin')
+    await createAliases(
+      binaries.map(([version, nucelPath]) => ({ version, nucelPath })),
+      aliasDir,
+    )
+    addPath(aliasDir)
+  }
+
+  if (inputs.installPath && installation.source === 'npm') {
+    core.warning('install-path is ignored for the npm package, which cannot run outside its install prefix')
+  } else if (inputs.installPath) {
+    nucelPath = await copyToInstallPath(nucelPath, inputs.installPath)
+  }
+
+  // Add the binary directory to PATH
+  const binaryDir = path.dirname(nucelPath)
+  addPath(binaryDir)
+  core.info(`Added to PATH: ${binaryDir}`)
+
+  // The shim directory goes on PATH last, so `nucel` in later steps finds the shim first
+  if (inputs.trackUsage) {
+    const shimDir = path.join(workDir, 'shim')
+    await installUsageShim(nucelPath, workDir, shimDir)
+    addPath(shimDir)
+  }
+
+  exportDeploymentVariables(context)
+
+  if (inputs.problemMatcher ?? true) {
+    try {
+      await addProblemMatcher(workDir)
+    } catch (error) {
+      core.warning(`Failed to register the Nucel CLI problem matcher: ${error}`)
     }
-  } catch (error) {
-    core.warning(`Cache restore failed: ${error}`)
   }
 
-  return null
+  if (inputs.token) {
+    await authenticate(nucelPath, inputs.token)
+  }
+
+  const durationMs = Date.now() - startTime
+  const reports: SetupReport[] = []
+  for (const [index, version] of installed.entries()) {
+    const versionPath = index === defaultIndex ? nucelPath : version.installation.nucelPath
+    reports.push({
+      requestedVersion: version.spec,
+      resolvedVersion: version.installation.version,
+      cliVersion: await getCliVersion(versionPath, version.installation.version),
+      target: detected.target,
+      source: version.installation.source,
+      downloadUrl: version.installation.downloadUrl ?? '',
+      sha256: version.installation.sha256 ?? '',
+      nucelPath: versionPath,
+      resolveMs: version.resolvedTime - version.startTime,
+      installMs: version.installedTime - version.resolvedTime,
+      durationMs,
+    })
+  }
+  const report = reports[defaultIndex]
+  setOutputs(report)
+  await writeJobSummary(reports)
+
+  if (inputs.validateConfig) {
+    await validateConfig(nucelPath, inputs.configFile || DEFAULT_CONFIG_FILE, inputs.workingDirectory)
+  }
+
+  if (inputs.command) {
+    await runCommandWithComment(inputs, context, nucelPath, report)
+  }
 }
 
-const installNucelCLI = async (inputs: Inputs, platform: PlatformInfo): Promise<string> => {
-  core.info(`Installing Nucel CLI ${inputs.version}...`)
+// The comment reports failed deploys too, so a stale preview link is not mistaken for the current one
+const runCommandWithComment = async (inputs: Inputs, context: Context, nucelPath: string, report: SetupReport) => {
+  const comment = {
+    commitSha: getDeploymentVariables(context).NUCEL_COMMIT_SHA,
+    cliVersion: report.cliVersion,
+    runUrl: context.runUrl,
+  }
+  try {
+    const result = await runCommand(nucelPath, inputs.command!, inputs.workingDirectory)
+    await commentOnPullRequest(inputs, context, { ...comment, status: 'success', deploymentUrl: result.deploymentUrl })
+  } catch (error) {
+    await commentOnPullRequest(inputs, context, { ...comment, status: 'failure' })
+    throw error
+  }
+}
 
+const commentOnPullRequest = async (inputs: Inputs, context: Context, comment: PreviewComment): Promise<void> => {
+  if (!inputs.prComment) {
+    return
+  }
+  // github-token is for github.com, while the pull request lives on the repository's own instance
+  const token = inputs.prCommentToken || process.env.GITHUB_TOKEN
+  if (!token) {
+    core.warning('pr-comment requires pr-comment-token or GITHUB_TOKEN, skipping the pull request comment')
+    return
+  }
   try {
-    // Download binary directly from GitHub releases
-    const downloadUrl = getDownloadUrl(inputs.version, platform)
-    core.info(`Downloading from: ${downloadUrl}`)
+    await upsertPullRequestComment(context, token, comment)
+  } catch (error) {
+    core.warning(`Failed to comment on the pull request: ${error}`)
+  }
+}
 
-    const downloadPath = await tc.downloadTool(downloadUrl)
-    core.info(`Downloaded to: ${downloadPath}`)
+/**
+ * Returns the check of a version against min-version, deny-versions and the release policy. It is enforced
+ * once a version is resolved, before it is installed, and on a CLI reused from the tool cache or PATH.
+ * Installed CLIs the policy does not allow are skipped rather than reused.
+ */
+const createPolicyCheck = (inputs: Inputs, denyVersions: string[]): PolicyCheck => {
+  const minVersion = semver.valid(inputs.minVersion ?? '') ?? undefined
+  if (!minVersion && denyVersions.length === 0 && !inputs.releasePolicy) {
+    return { allows: async () => true, enforce: async () => {} }
+  }
 
-    // Extract the binary
-    let extractedPath: string
-    if (platform.ext === '.zip') {
-      extractedPath = await tc.extractZip(downloadPath)
-    } else {
-      extractedPath = await tc.extractTar(downloadPath, undefined, 'xz')
+  // The release list and the policy are fetched at most once for all versions, and only when needed
+  let releases: Promise<Release[]> | undefined
+  const getReleases = () => (releases ??= listFromSources(getReleaseSources(inputs)))
+  const fetchReleasePolicy = async (): Promise<VersionPolicy | null> => {
+    try {
+      return inputs.releasePolicy ? await fetchVersionPolicy(await getReleases()) : null
+    } catch (error) {
+      core.warning(`Could not read the Nucel CLI version policy: ${error}`)
+      return null
     }
-    core.info(`Extracted to: ${extractedPath}`)
+  }
+  let releasePolicy: Promise<VersionPolicy | null> | undefined
+  const getRules = async (): Promise<PolicyRules> => ({
+    minVersion,
+    denyVersions,
+    releasePolicy: await (releasePolicy ??= fetchReleasePolicy()),
+  })
+
+  // Several specs can resolve to the same version, which only needs one annotation
+  const checked = new Set<string>()
+  return {
+    allows: async (version) => !findPolicyViolations(version, await getRules()).some(({ level }) => level === 'error'),
+    enforce: async (version) => {
+      if (checked.has(version)) {
+        return
+      }
+      checked.add(version)
+      await enforceVersionPolicy([version], await getRules(), getReleases)
+    },
+  }
+}
 
-    // Find the binary in the extracted directory
-    const binaryPath = await findBinaryInDir(extractedPath, platform.binaryName)
-    if (!binaryPath) {
-      throw new Error(`Nucel CLI binary not found in extracted directory: ${extractedPath}`)
+// With install-source auto, the npm package stands in where no release asset exists
+const setupVersion = async (
+  inputs: Inputs,
+  detected: DetectedPlatform,
+  workDir: string,
+  policy: PolicyCheck,
+): Promise<Setup> => {
+  const installSource = inputs.installSource || 'release'
+  if (installSource !== 'npm') {
+    try {
+      return await setupFromRelease(inputs, getPlatformInfo(detected), workDir, policy)
+    } catch (error) {
+      if (installSource === 'release' || !(error instanceof UnsupportedPlatformError)) {
+        throw error
+      }
+      core.info(`${error.message}, installing the ${NPM_PACKAGE} npm package instead`)
     }
+  }
+  return await setupFromNpm(inputs, detected, workDir, policy)
+}
 
-    // Verify the installation
+// Without check-latest, any installed version that satisfies an explicit version or range is good enough and
+// needs no network. `latest` and the channels move with every release, so they always go to the release list
+const findInstalledForSpec = async (
+  inputs: Inputs,
+  layout: ToolLayout,
+  policy: PolicyCheck,
+  check: ReuseCheck,
+): Promise<Installation | null> => {
+  const offline = !inputs.checkLatest && inputs.version !== 'latest' && !isChannel(inputs.version)
+  const installation = offline ? await findInstalled(inputs.version, layout, policy, check) : null
+  if (installation) {
+    core.info(`Using Nucel CLI ${installation.version} (requested ${inputs.version}); set check-latest to look for a newer release`)
+  }
+  return installation
+}
+
+const setupFromRelease = async (
+  inputs: Inputs,
+  platform: PlatformInfo,
+  workDir: string,
+  policy: PolicyCheck,
+): Promise<Setup> => {
+  const layout = getReleaseLayout(platform)
+  // A CLI on PATH never went through the archive that checksum and verify-provenance check, and one matched by
+  // range can only be compared with the release's digest once the release is resolved
+  const verify = !!inputs.checksum || !!inputs.verifyProvenance
+  if (verify) {
+    core.info('checksum or verify-provenance is set, so the release is resolved and a Nucel CLI on PATH is not reused')
+  }
+  const installed = verify ? null : await findInstalledForSpec(inputs, layout, policy, checkInstallRecord(inputs, layout))
+  if (installed) {
+    await policy.enforce(installed.version)
+    return { installation: installed, resolvedTime: Date.now() }
+  }
+
+  const sources = getReleaseSources(inputs)
+  const release = await resolveFromSources(
+    inputs.version,
+    (version) => getAssetName(platform, version, inputs.assetNamePattern),
+    sources,
+  )
+  const resolvedTime = Date.now()
+  await policy.enforce(release.version)
+  const cacheKey = `nucel-cli-${release.version}-${platform.target}`
+
+  core.info(`Setting up Nucel CLI ${release.version} (requested ${inputs.version}) on ${platform.target}`)
+
+  // Only fetched once a cached binary has a record to compare it with
+  let expectedSha256: Promise<string | null> | undefined
+  const assetName = getAssetName(platform, release.version, inputs.assetNamePattern)
+  const check = checkInstallRecord(inputs, layout, () => (expectedSha256 ??= getExpectedChecksum(release, assetName, inputs.checksum)))
+
+  const installation = await getInstallation(
+    inputs,
+    layout,
+    release.version,
+    cacheKey,
+    () => installNucelCLI(inputs, release, platform, sources, workDir, layout),
+    { reusePath: !verify, check },
+  )
+  return { installation, resolvedTime }
+}
+
+const setupFromNpm = async (
+  inputs: Inputs,
+  detected: DetectedPlatform,
+  workDir: string,
+  policy: PolicyCheck,
+): Promise<Setup> => {
+  if (inputs.checksum || inputs.verifyProvenance) {
+    core.warning('checksum and verify-provenance only apply to release archives, not to the npm package')
+  }
+  const layout = getNpmLayout(detected)
+  const installed = await findInstalledForSpec(inputs, layout, policy, reuseAny)
+  if (installed) {
+    await policy.enforce(installed.version)
+    return { installation: installed, resolvedTime: Date.now() }
+  }
+
+  const options: NpmOptions = { registryUrl: inputs.npmRegistryUrl, token: inputs.npmToken, workDir }
+  const version = await resolveNpmVersion(inputs.version, options)
+  const resolvedTime = Date.now()
+  await policy.enforce(version)
+  const cacheKey = `nucel-cli-npm-${version}-${detected.target}`
+
+  core.info(`Setting up ${NPM_PACKAGE}@${version} (requested ${inputs.version}) from npm`)
+
+  const installation = await getInstallation(inputs, layout, version, cacheKey, async () => {
+    const prefix = path.join(workDir, 'npm', version)
+    const binaryPath = await installNpmPackage(version, prefix, detected.platform, options)
     if (!(await verifyInstallation(binaryPath))) {
       throw new Error('Nucel CLI installation verification failed')
     }
+    const nucelPath = await cacheDirectory(prefix, version, layout)
+    core.info(`Nucel CLI installed successfully at ${nucelPath}`)
+    return { nucelPath, version, source: 'npm' }
+  })
+  return { installation, resolvedTime }
+}
 
-    // Add the binary directory to PATH
-    const binaryDir = path.dirname(binaryPath)
-    addPath(binaryDir)
-    core.info(`Added to PATH: ${binaryDir}`)
+/**
+ * Prefers a binary already on the runner, then the Actions cache, and only then installs.
+ * Tool cache and Actions cache hits go through `check`, and one it refuses is installed over.
+ * A CLI on PATH can come from anywhere, so `reusePath` turns it off when the install has to be verified.
+ */
+const getInstallation = async (
+  inputs: Inputs,
+  layout: ToolLayout,
+  version: string,
+  cacheKey: string,
+  install: () => Promise<Installation>,
+  { reusePath = true, check = reuseAny }: { reusePath?: boolean; check?: ReuseCheck } = {},
+): Promise<Installation> => {
+  const cached = await findReusable(version, layout, check, 'tool-cache')
+  if (cached) {
+    core.info('Nucel CLI found in tool cache')
+    return cached
+  }
 
-    core.info(`Nucel CLI installed successfully at ${binaryPath}`)
-    return binaryPath
+  const onPath = reusePath ? await findOnPath() : null
+  if (onPath?.version === version) {
+    core.info(`Nucel CLI found on PATH at ${onPath.nucelPath}`)
+    return { ...onPath, source: 'path' }
+  }
 
-  } catch (error) {
-    throw new Error(`Failed to install Nucel CLI: ${error}`)
+  // Runners on one host can share the tool cache, so only one job at a time writes this version
+  const [toolDir] = getToolCachePaths(version, layout)
+  const timeoutMs = (inputs.lockTimeout ?? DEFAULT_LOCK_TIMEOUT_SECONDS) * 1000
+  const installation = await withLock(
+    `${toolDir}.lock`,
+    async (waited): Promise<Installation> => {
+      // The job holding the lock may have installed this version in the meantime
+      const installed = waited ? await findReusable(version, layout, check, 'tool-cache') : null
+      if (installed) {
+        core.info('Nucel CLI installed to the tool cache by another job')
+        return installed
+      }
+
+      await removePartialInstall(version, layout)
+
+      const restored = (await restoreFromCache(cacheKey, version, layout))
+        ? await findReusable(version, layout, check, 'actions-cache')
+        : null
+      if (restored) {
+        core.info('Nucel CLI restored from cache')
+        return restored
+      }
+
+      return await install()
+    },
+    { timeoutMs },
+  )
+  if (installation.unverified) {
+    core.info('Not saving Nucel CLI to the Actions cache, since its archive was not verified')
+  } else if (installation.source === 'download' || installation.source === 'npm') {
+    await saveToCache(cacheKey, version, layout)
   }
+  return installation
 }
 
-const getDownloadUrl = (version: string, platform: PlatformInfo): string => {
-  const baseUrl = 'https://github.com/nucel-cloud/nucel/releases/download'
-  const versionTag = version === 'latest' ? 'v0.1.9' : `v${version}` // Use correct release tag format
-  const fileName = `nucel-cli-${platform.platform}-${platform.arch}${platform.ext}`
-
-  return `${baseUrl}/${versionTag}/${fileName}`
+// Returns the binary for the version in the tool cache, unless `check` refuses to reuse it
+const findReusable = async (
+  version: string,
+  layout: ToolLayout,
+  check: ReuseCheck,
+  source: 'tool-cache' | 'actions-cache',
+): Promise<Installation | null> => {
+  const nucelPath = await findInToolCache(version, layout)
+  if (!nucelPath) {
+    return null
+  }
+  const { mismatch, sha256 } = await check(version)
+  if (mismatch) {
+    core.info(`Not reusing Nucel CLI ${version} from the ${source === 'tool-cache' ? 'tool cache' : 'Actions cache'}: ${mismatch}`)
+    return null
+  }
+  return { nucelPath, version, source, sha256 }
 }
 
-const findBinaryInDir = async (dirPath: string, binaryName: string): Promise<string | null> => {
-  core.info(`Searching for binary in extracted directory: ${dirPath}`)
+/**
+ * Checks the record a release binary keeps of its archive against `checksum`, verify-provenance and
+ * allow-unverified. Given the digest the resolved release expects, the recorded one must match it.
+ */
+const checkInstallRecord = (
+  inputs: Inputs,
+  layout: ToolLayout,
+  getExpectedSha256?: () => Promise<string | null>,
+): ReuseCheck => async (version) => {
+  const [toolDir] = getToolCachePaths(version, layout)
+  const record = await readInstallRecord(toolDir)
+  const expectedSha256 = record && getExpectedSha256 ? await getExpectedSha256() : null
+  const mismatch = findReuseMismatch(record, {
+    expectedSha256,
+    verifyProvenance: inputs.verifyProvenance,
+    allowUnverified: inputs.allowUnverified,
+  })
+  return { mismatch, sha256: record?.sha256 }
+}
 
-  try {
-    // List all contents first for debugging
-    const allContents = await fs.readdir(dirPath, { recursive: true })
-    core.info(`Found ${allContents.length} items in extracted directory`)
-    core.info(`Contents: ${allContents.slice(0, 20).join(', ')}${allContents.length > 20 ? '...' : ''}`)
+/**
+ * Looks for the highest version satisfying the range among the tool cache and a `nucel` on PATH
+ * (e.g., baked into a self-hosted runner image). The tool cache wins a tie. Versions the policy does
+ * not allow are skipped, so the release list can offer one it does.
+ */
+const findInstalled = async (
+  range: string,
+  layout: ToolLayout,
+  policy: PolicyCheck,
+  check: ReuseCheck,
+): Promise<Installation | null> => {
+  const candidates: Installation[] = []
+  const isAllowed = async (version: string, location: string): Promise<boolean> => {
+    if (await policy.allows(version)) {
+      return true
+    }
+    core.info(`Not reusing Nucel CLI ${version} ${location}, which the version policy does not allow`)
+    return false
+  }
 
-    // The extracted file is named like 'nucel-cli-linux-x64' but we want to use it as 'nucel'
-    // Look for any file that starts with 'nucel-cli-' and ends with the platform/arch
-    const platform = getPlatformInfo()
-    const expectedPrefix = `nucel-cli-${platform.platform}-${platform.arch}`
+  const cachedVersions = tc.findAllVersions(layout.tool, layout.arch).filter((version) => semver.satisfies(version, range))
+  for (const cachedVersion of semver.rsort(cachedVersions)) {
+    if (!(await isAllowed(cachedVersion, 'from the tool cache'))) {
+      continue
+    }
+    const cached = await findReusable(cachedVersion, layout, check, 'tool-cache')
+    if (cached) {
+      candidates.push(cached)
+    }
+    break
+  }
 
-    // Check root directory for the expected filename
-    const expectedPath = path.join(dirPath, expectedPrefix)
-    if (await fileExists(expectedPath)) {
-      core.info(`Found expected binary at: ${expectedPath}`)
+  const onPath = await findOnPath()
+  if (onPath && semver.satisfies(onPath.version, range) && (await isAllowed(onPath.version, 'on PATH'))) {
+    candidates.push({ ...onPath, source: 'path' })
+  }
 
-      // Make it executable and return the path
-      if (platform.platform !== 'win32') {
-        await exec.exec('chmod', ['+x', expectedPath])
-        core.info(`Made binary executable: ${expectedPath}`)
-      }
+  const [installed] = candidates.sort((a, b) => semver.rcompare(a.version, b.version))
+  if (installed) {
+    core.info(installed.source === 'path' ? `Nucel CLI found on PATH at ${installed.nucelPath}` : 'Nucel CLI found in tool cache')
+  }
+  return installed ?? null
+}
 
-      return expectedPath
+const findOnPath = async (): Promise<{ nucelPath: string; version: string } | null> => {
+  const nucelPath = await io.which(TOOL_NAME)
+  if (!nucelPath) {
+    return null
+  }
+  try {
+    const output = await exec.getExecOutput(nucelPath, ['--version'], { ignoreReturnCode: true, silent: true })
+    const version = output.exitCode === 0 ? parseVersionOutput(output.stdout) : null
+    if (version) {
+      return { nucelPath, version }
     }
+    core.info(`Ignoring ${nucelPath}: could not determine its version`)
+  } catch (error) {
+    core.info(`Ignoring ${nucelPath}: ${error}`)
+  }
+  return null
+}
 
-    // If not found with expected name, look for any file that contains 'nucel'
-    for (const item of allContents) {
-      const fullPath = path.join(dirPath, item)
-      const basename = path.basename(item)
+// Binaries live in the runner tool cache under nucel/<version>/<arch>, npm packages under nucel-npm/<version>/<arch>
+const getToolCachePaths = (version: string, layout: ToolLayout): string[] => {
+  const toolDir = path.join(process.env.RUNNER_TOOL_CACHE || os.tmpdir(), layout.tool, version, layout.arch)
+  // tc.find only returns directories that have the marker file next to them
+  return [toolDir, `${toolDir}.complete`]
+}
 
-      if (basename.includes('nucel') && await fileExists(fullPath)) {
-        core.info(`Found nucel-related file at: ${fullPath}`)
+const findInToolCache = async (version: string, layout: ToolLayout): Promise<string | null> => {
+  const toolDir = tc.find(layout.tool, version, layout.arch)
+  if (!toolDir) {
+    return null
+  }
 
-        // Make it executable and return the path
-        if (platform.platform !== 'win32') {
-          await exec.exec('chmod', ['+x', fullPath])
-          core.info(`Made binary executable: ${fullPath}`)
-        }
+  const nucelPath = path.join(toolDir, layout.binaryPath)
+  if (await fileExists(nucelPath) && await verifyInstallation(nucelPath)) {
+    return nucelPath
+  }
+  return null
+}
 
-        return fullPath
-      }
+// Anything left for a version that is not in the tool cache comes from a job that died halfway or a broken restore
+const removePartialInstall = async (version: string, layout: ToolLayout): Promise<void> => {
+  for (const leftover of getToolCachePaths(version, layout)) {
+    try {
+      await fs.access(leftover)
+    } catch {
+      continue
     }
+    core.warning(`Removing incomplete Nucel CLI install: ${leftover}`)
+    await fs.rm(leftover, { recursive: true, force: true })
+  }
+}
 
-    core.error(`No nucel-related binary found in extracted files`)
-    return null
+const restoreFromCache = async (cacheKey: string, version: string, layout: ToolLayout): Promise<boolean> => {
+  try {
+    return !!(await cache.restoreCache(getToolCachePaths(version, layout), cacheKey))
   } catch (error) {
-    core.error(`Error searching for binary: ${error}`)
-    return null
+    core.warning(`Cache restore failed: ${error}`)
   }
+
+  return false
 }
 
-const findBinaryRecursive = async (dirPath: string, binaryName: string): Promise<string | null> => {
+const installNucelCLI = async (
+  inputs: Inputs,
+  release: Release,
+  platform: PlatformInfo,
+  sources: ReleaseSource[],
+  workDir: string,
+  layout: ToolLayout,
+): Promise<Installation> => {
+  core.info(`Installing Nucel CLI ${release.version}...`)
+  // Each version gets its own directory, since asset names usually do not include the version
+  const versionDir = path.join(workDir, release.version)
+
   try {
-    const entries = await fs.readdir(dirPath, { withFileTypes: true })
+    // Download the archive from the release, falling back to the mirrors in order
+    const assetName = getAssetName(platform, release.version, inputs.assetNamePattern)
+    const download = await downloadWithFallback(
+      getDownloadSources(release, assetName, sources),
+      `Nucel CLI ${release.version} (${assetName})`,
+      (inputs.downloadRetries ?? DEFAULT_DOWNLOAD_RETRIES) + 1,
+      path.join(versionDir, assetName),
+    )
+
+    // Verify the archive before extracting anything from it
+    const digest = await verifyChecksum(download.path, assetName, release, inputs.checksum, inputs.allowUnverified)
+
+    if (inputs.verifyProvenance) {
+      await verifyProvenance(download.path, assetName, release)
+    }
 
-    for (const entry of entries) {
-      const fullPath = path.join(dirPath, entry.name)
+    // Extract the binary
+    const extractedPath = await extractArchive(download.path, platform.binaryName, path.join(versionDir, 'extracted'))
+    core.info(`Extracted to: ${extractedPath}`)
 
-      if (entry.isFile() && entry.name === binaryName) {
-        return fullPath
-      }
+    // Find the binary in the extracted directory
+    const binaryPath = await findBinaryInDir(extractedPath, platform, release.version)
+    if (!binaryPath) {
+      throw new Error(
+        `Nucel CLI binary not found in extracted directory: ${extractedPath} (expected one of ${getBinaryManifest(platform).join(', ')})`,
+      )
+    }
 
-      if (entry.isDirectory()) {
-        const found = await findBinaryRecursive(fullPath, binaryName)
-        if (found) {
-          return found
-        }
-      }
+    // Verify the installation
+    if (!(await verifyInstallation(binaryPath))) {
+      throw new Error('Nucel CLI installation verification failed')
     }
+
+    // Place the binary in the tool cache so repeat runs on the same runner skip the download
+    const record: InstallRecord = { sha256: digest.sha256, verified: digest.verified, provenance: !!inputs.verifyProvenance }
+    const nucelPath = await cacheBinary(binaryPath, release.version, layout, record)
+    core.info(`Nucel CLI installed successfully at ${nucelPath}`)
+    return {
+      nucelPath,
+      version: release.version,
+      source: 'download',
+      downloadUrl: download.url,
+      sha256: digest.sha256,
+      unverified: !record.verified && !record.provenance,
+    }
+
   } catch (error) {
-    // Ignore errors and continue searching
+    throw new Error(`Failed to install Nucel CLI: ${error}`)
   }
+}
 
-  return null
+const getAssetName = (platform: PlatformInfo, version: string, pattern = DEFAULT_ASSET_NAME_PATTERN): string =>
+  pattern
+    .replaceAll('{version}', version)
+    .replaceAll('{target}', platform.target)
+    .replaceAll('{platform}', platform.platform)
+    .replaceAll('{arch}', platform.arch)
+    .replaceAll('{ext}', platform.ext)
+
+// The primary source (GitHub releases or download-base-url) comes first, then the fallback mirrors
+const getReleaseSources = (inputs: Inputs): ReleaseSource[] => {
+  const primary: ReleaseSource = {
+    baseUrl: inputs.downloadBaseUrl?.replace(/\/+$/, '') || undefined,
+    headers: inputs.downloadHeaders,
+    token: inputs.githubToken,
+  }
+  const fallbacks = (inputs.downloadFallbackUrls ?? []).map((baseUrl) => ({
+    baseUrl: baseUrl.replace(/\/+$/, ''),
+    headers: inputs.downloadHeaders,
+  }))
+  return [primary, ...fallbacks]
 }
 
-const findBinaryInCache = async (cachePath: string): Promise<string | null> => {
-  try {
-    const platform = getPlatformInfo()
-    const cachedBinary = path.join(cachePath, platform.binaryName)
+const resolveFromSources = async (
+  spec: string,
+  getAssetNameForVersion: (version: string) => string,
+  sources: ReleaseSource[],
+): Promise<Release> => {
+  const errors: unknown[] = []
+  for (const source of sources) {
+    try {
+      return await resolveRelease(spec, getAssetNameForVersion, source)
+    } catch (error) {
+      core.warning(`Failed to resolve Nucel CLI ${spec} from ${source.baseUrl ?? 'GitHub releases'}: ${error}`)
+      errors.push(error)
+    }
+  }
+  throw errors[0]
+}
 
-    if (await fileExists(cachedBinary)) {
-      return cachedBinary
+const listFromSources = async (sources: ReleaseSource[]): Promise<Release[]> => {
+  const errors: unknown[] = []
+  for (const source of sources) {
+    try {
+      return await listReleases(source)
+    } catch (error) {
+      core.debug(`Failed to list Nucel CLI releases from ${source.baseUrl ?? 'GitHub releases'}: ${error}`)
+      errors.push(error)
     }
-  } catch (error) {
-    core.warning(`Error finding binary in cache: ${error}`)
+  }
+  throw errors[0]
+}
+
+const getDownloadSources = (release: Release, assetName: string, sources: ReleaseSource[]): DownloadSource[] =>
+  sources.map((source) => ({
+    url: getAssetUrl(source, release.tag, assetName),
+    headers: source.baseUrl ? (source.headers ?? {}) : {},
+  }))
+
+// Layouts the release archives have shipped, in order of preference
+const getBinaryManifest = (platform: PlatformInfo): string[] => {
+  const releaseName = `nucel-cli-${platform.target}`
+  const exeSuffix = platform.platform === 'win32' ? '.exe' : ''
+  return [
+    `${releaseName}${exeSuffix}`,
+    platform.binaryName,
+    path.join('bin', platform.binaryName),
+    path.join(releaseName, platform.binaryName),
+  ]
+}
+
+const findBinaryInDir = async (dirPath: string, platform: PlatformInfo, version: string): Promise<string | null> => {
+  core.info(`Searching for the Nucel CLI ${version} binary in extracted directory: ${dirPath}`)
+
+  for (const name of getBinaryManifest(platform)) {
+    const candidate = path.join(dirPath, name)
+    try {
+      await fs.access(candidate, fs.constants.F_OK)
+    } catch {
+      continue
+    }
+    core.info(`Found binary at: ${candidate}`)
+
+    // Make it executable and return the path
+    if (platform.platform !== 'win32') {
+      await exec.exec('chmod', ['+x', candidate])
+      core.info(`Made binary executable: ${candidate}`)
+    }
+    return candidate
   }
 
+  try {
+    const allContents = await fs.readdir(dirPath, { recursive: true })
+    core.info(`Contents: ${allContents.slice(0, 20).join(', ')}${allContents.length > 20 ? '...' : ''}`)
+  } catch (error) {
+    core.warning(`Error listing extracted directory: ${error}`)
+  }
   return null
 }
 
@@ -254,46 +892,117 @@ const verifyInstallation = async (nucelPath: string): Promise<boolean> => {
   }
 }
 
-const saveToCache = async (cacheKey: string, nucelPath: string): Promise<void> => {
+const saveToCache = async (cacheKey: string, version: string, layout: ToolLayout): Promise<void> => {
   try {
-    const cachePath = path.join(process.cwd(), 'nucel-cache')
-    await fs.mkdir(cachePath, { recursive: true })
+    // saveCache logs its own failures, such as another job reserving the key first, and returns -1
+    const cacheId = await cache.saveCache(getToolCachePaths(version, layout), cacheKey)
+    if (cacheId !== -1) {
+      core.info('Nucel CLI cached successfully')
+    }
+  } catch (error) {
+    core.warning(`Failed to cache Nucel CLI: ${error}`)
+  }
+}
 
-    const cachedNucelPath = path.join(cachePath, path.basename(nucelPath))
-    await fs.copyFile(nucelPath, cachedNucelPath)
+// Copies under a temporary name and renames it into place, so no job ever runs a half-written binary
+const copyBinary = async (source: string, dest: string): Promise<void> => {
+  const tempPath = `${dest}.${crypto.randomUUID()}.tmp`
+  try {
+    await fs.copyFile(source, tempPath)
+    if (process.platform !== 'win32') {
+      await fs.chmod(tempPath, 0o755)
+    }
+    await fs.rename(tempPath, dest)
+  } catch (error) {
+    await fs.rm(tempPath, { force: true })
+    throw error
+  }
+}
+
+// Same layout as tc.cacheFile, but the binary appears atomically and the marker only once it and its record are in place
+const cacheBinary = async (binaryPath: string, version: string, layout: ToolLayout, record: InstallRecord): Promise<string> => {
+  const [toolDir, markerPath] = getToolCachePaths(version, layout)
+  const nucelPath = path.join(toolDir, layout.binaryPath)
+  await fs.mkdir(toolDir, { recursive: true })
+  await copyBinary(binaryPath, nucelPath)
+  await writeInstallRecord(toolDir, record)
+  await fs.writeFile(markerPath, '')
+  return nucelPath
+}
 
-    await cache.saveCache([cachePath], cacheKey)
-    core.info('Nucel CLI cached successfully')
+// The npm prefix moves into the tool cache in one rename; its .bin links are relative, so they keep working
+const cacheDirectory = async (sourceDir: string, version: string, layout: ToolLayout): Promise<string> => {
+  const [toolDir, markerPath] = getToolCachePaths(version, layout)
+  const tempDir = `${toolDir}.${crypto.randomUUID()}.tmp`
+  await fs.mkdir(path.dirname(toolDir), { recursive: true })
+  try {
+    await fs.cp(sourceDir, tempDir, { recursive: true, verbatimSymlinks: true })
+    await fs.rename(tempDir, toolDir)
   } catch (error) {
-    core.warning(`Failed to cache Nucel CLI: ${error}`)
+    await fs.rm(tempDir, { recursive: true, force: true })
+    throw error
   }
+  await fs.writeFile(markerPath, '')
+  return path.join(toolDir, layout.binaryPath)
 }
 
-const setOutputs = async (nucelPath: string): Promise<void> => {
-  let version = 'unknown'
+const copyToInstallPath = async (nucelPath: string, installPath: string): Promise<string> => {
+  const targetPath = path.join(installPath, path.basename(nucelPath))
+  await fs.mkdir(installPath, { recursive: true })
+  await copyBinary(nucelPath, targetPath)
+
+  core.info(`Copied Nucel CLI to ${targetPath}`)
+  return targetPath
+}
+
+// Falls back to the resolved release version when the CLI output has no recognizable version
+const getCliVersion = async (nucelPath: string, resolvedVersion: string): Promise<string> => {
   try {
-    const output = await exec.getExecOutput(nucelPath, ['--version'])
-    if (output.exitCode === 0) {
-      version = output.stdout.trim().split(' ').pop() || 'unknown'
+    const output = await exec.getExecOutput(nucelPath, ['--version'], { ignoreReturnCode: true, silent: true })
+    const version = output.exitCode === 0 ? parseVersionOutput(output.stdout) : null
+    if (version) {
+      return version
     }
-  } catch {
-    core.warning('Could not determine Nucel CLI version')
+    core.warning(`Could not parse the Nucel CLI version from "${output.stdout.trim()}", using ${resolvedVersion}`)
+  } catch (error) {
+    core.warning(`Could not determine Nucel CLI version: ${error}`)
   }
+  return resolvedVersion
+}
 
-  core.setOutput('cli-version', version)
-  core.setOutput('cli-path', nucelPath)
+const setOutputs = (report: SetupReport): void => {
+  core.setOutput('cli-version', report.cliVersion)
+  core.setOutput('cli-path', report.nucelPath)
+  core.setOutput('cache-hit', report.source === 'tool-cache' || report.source === 'actions-cache')
+  core.setOutput('resolved-version', report.resolvedVersion)
+  core.setOutput('channel', getChannel(report.resolvedVersion))
+  core.setOutput('build', getBuild(report.resolvedVersion))
+  core.setOutput('download-url', report.downloadUrl)
+  core.setOutput('install-dir', path.dirname(report.nucelPath))
+  core.setOutput('sha256', report.sha256)
+  core.setOutput('duration-ms', report.durationMs)
 
   core.info(`Nucel CLI setup complete:`)
-  core.info(`  Version: ${version}`)
-  core.info(`  Path: ${nucelPath}`)
+  core.info(`  Version: ${report.cliVersion}`)
+  core.info(`  Path: ${report.nucelPath}`)
 }
 
 export const cleanup = async (): Promise<void> => {
   core.info('Running post-step cleanup...')
 
+  // Before the working directory and the invocation log in it are removed
+  await writeUsageSummary()
+
+  removeProblemMatcher()
+
+  try {
+    await revokeCredentials()
+  } catch (error) {
+    core.warning(`Failed to remove Nucel CLI credentials: ${error}`)
+  }
+
   try {
-    const cachePath = path.join(process.cwd(), 'nucel-cache')
-    await fs.rm(cachePath, { recursive: true, force: true })
+    await removeWorkDir()
     core.info('Temporary files cleaned up')
   } catch (error) {
     core.warning(`Cleanup failed: ${error}`)
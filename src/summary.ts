@@ -0,0 +1,74 @@
+import * as core from '@actions/core'
+import { getChannel } from './releases.js'
+
+export type InstallSource = 'path' | 'tool-cache' | 'actions-cache' | 'download' | 'npm'
+
+export type SetupReport = {
+  requestedVersion: string
+  resolvedVersion: string
+  cliVersion: string
+  target: string
+  source: InstallSource
+  downloadUrl: string
+  sha256: string
+  nucelPath: string
+  resolveMs: number
+  installMs: number
+  durationMs: number
+}
+
+const SOURCE_LABELS: Record<InstallSource, string> = {
+  path: 'Already installed on PATH',
+  'tool-cache': 'Runner tool cache',
+  'actions-cache': 'Actions cache',
+  download: 'Downloaded',
+  npm: 'Installed from npm',
+}
+
+// Escapes the value, since job summaries are rendered as HTML
+export const code = (value: string): string => `<code>${value.replace(/&/g, '&amp;').replace(/</g, '&lt;')}</code>`
+
+const getRows = (report: SetupReport): string[][] => {
+  const source = report.source === 'download' ? `${SOURCE_LABELS.download} from ${code(report.downloadUrl)}` : SOURCE_LABELS[report.source]
+  return [
+    ['Requested version', code(report.requestedVersion)],
+    ['Resolved version', code(report.resolvedVersion)],
+    ['Channel', getChannel(report.resolvedVersion)],
+    ['CLI version', code(report.cliVersion)],
+    ['Platform', code(report.target)],
+    ['Source', source],
+    ['SHA-256', report.sha256 ? code(report.sha256) : '-'],
+    ['Path', code(report.nucelPath)],
+    ['Timings', `resolve ${report.resolveMs} ms, install ${report.installMs} ms, total ${report.durationMs} ms`],
+  ]
+}
+
+/**
+ * Writes the setup details of each installed version to the job summary. Outside of Actions
+ * there is no summary file, so this is skipped.
+ */
+export const writeJobSummary = async (reports: SetupReport[]): Promise<void> => {
+  if (!process.env.GITHUB_STEP_SUMMARY) {
+    core.debug('GITHUB_STEP_SUMMARY is not set, skipping the job summary')
+    return
+  }
+
+  try {
+    core.summary.addHeading('Nucel CLI', 3)
+    for (const report of reports) {
+      if (reports.length > 1) {
+        core.summary.addHeading(report.resolvedVersion, 4)
+      }
+      core.summary.addTable([
+        [
+          { data: 'Setting', header: true },
+          { data: 'Value', header: true },
+        ],
+        ...getRows(report),
+      ])
+    }
+    await core.summary.write()
+  } catch (error) {
+    core.warning(`Failed to write job summary: ${error}`)
+  }
+}
@@ -0,0 +1,159 @@
+import * as core from '@actions/core'
+import * as fs from 'fs/promises'
+import * as path from 'path'
+import { code } from './summary.js'
+
+const USAGE_LOG_STATE = 'usageLog'
+
+export type Invocation = {
+  subcommand: string
+  args: string[]
+  exitCode: number | null
+  signal?: string
+  durationMs: number
+  startedAt: string
+}
+
+/**
+ * The shim runs on the Node.js that runs this action, so it does not depend on `node` being on PATH.
+ * It is plain CommonJS, since it is written to disk and never bundled.
+ */
+const getShimScript = (nucelPath: string, logPath: string): string => `'use strict'
+const { spawnSync } = require('child_process')
+const fs = require('fs')
+
+const nucelPath = ${JSON.stringify(nucelPath)}
+const logPath = ${JSON.stringify(logPath)}
+// Values of flags whose name mentions a secret, and the token itself wherever it appears
+const secretFlag = /^--?[\\w-]*(token|secret|password|passwd|api-?key|auth)[\\w-]*$/i
+const token = process.env.NUCEL_TOKEN
+
+const redact = (args) =>
+  args.map((arg, index) => {
+    if (index > 0 && secretFlag.test(args[index - 1])) return '***'
+    const [flag] = arg.split('=', 1)
+    if (arg.includes('=') && secretFlag.test(flag)) return flag + '=***'
+    return token ? arg.split(token).join('***') : arg
+  })
+
+const args = process.argv.slice(2)
+const start = Date.now()
+const result = spawnSync(nucelPath, args, { stdio: 'inherit', shell: /\\.cmd$/i.test(nucelPath) })
+if (result.error) console.error('nucel: ' + result.error.message)
+const exitCode = result.error ? 127 : result.status
+const safeArgs = redact(args)
+// Only a first argument that is not a flag names the subcommand; after a flag, it could be the flag's value
+const record = {
+  subcommand: safeArgs.length > 0 && !safeArgs[0].startsWith('-') ? safeArgs[0] : '',
+  args: safeArgs,
+  exitCode,
+  signal: result.signal || undefined,
+  durationMs: Date.now() - start,
+  startedAt: new Date(start).toISOString(),
+}
+try {
+  fs.appendFileSync(logPath, JSON.stringify(record) + '\\n')
+} catch (error) {
+  console.error('nucel: could not record the invocation: ' + error.message)
+}
+if (result.signal) process.kill(process.pid, result.signal)
+process.exit(exitCode === null ? 1 : exitCode)
+`
+
+/**
+ * Writes a `nucel` shim to `shimDir` that runs `nucelPath` and appends every invocation to a log in
+ * `workDir`, and records the log for the post step. `shimDir` has to go on PATH after the real binary.
+ */
+export const installUsageShim = async (nucelPath: string, workDir: string, shimDir: string): Promise<void> => {
+  const logPath = path.join(workDir, 'usage.jsonl')
+  const scriptPath = path.join(workDir, 'usage-shim.cjs')
+  await fs.writeFile(scriptPath, getShimScript(nucelPath, logPath))
+  await fs.writeFile(logPath, '')
+
+  await fs.mkdir(shimDir, { recursive: true })
+  if (process.platform === 'win32') {
+    await fs.writeFile(path.join(shimDir, 'nucel.cmd'), `@"${process.execPath}" "${scriptPath}" %*\r\n`)
+  } else {
+    const shimPath = path.join(shimDir, 'nucel')
+    await fs.writeFile(shimPath, `#!/bin/sh\nexec "${process.execPath}" "${scriptPath}" "$@"\n`)
+    await fs.chmod(shimPath, 0o755)
+  }
+  core.saveState(USAGE_LOG_STATE, logPath)
+  core.info(`Recording Nucel CLI invocations to ${logPath}`)
+}
+
+// Lines that are cut off or not JSON are skipped, so one broken record does not hide the rest
+export const readInvocations = async (logPath: string): Promise<Invocation[]> => {
+  const text = await fs.readFile(logPath, 'utf-8')
+  const invocations: Invocation[] = []
+  for (const line of text.split('\n')) {
+    if (!line.trim()) {
+      continue
+    }
+    try {
+      invocations.push(JSON.parse(line) as Invocation)
+    } catch {
+      core.debug(`Skipping unreadable invocation record: ${line}`)
+    }
+  }
+  return invocations
+}
+
+const getStatus = (invocation: Invocation): string => {
+  if (invocation.exitCode === 0) {
+    return '✅ Succeeded'
+  }
+  return invocation.signal ? `❌ Killed by ${invocation.signal}` : `❌ Exit code ${invocation.exitCode}`
+}
+
+/**
+ * Turns the invocations the shim recorded into a job summary table, with a warning for each failed command.
+ */
+export const writeUsageSummary = async (): Promise<void> => {
+  const logPath = core.getState(USAGE_LOG_STATE)
+  if (!logPath) {
+    return
+  }
+
+  let invocations: Invocation[]
+  try {
+    invocations = await readInvocations(logPath)
+  } catch (error) {
+    core.warning(`Could not read the Nucel CLI invocations: ${error}`)
+    return
+  }
+  const failed = invocations.filter((invocation) => invocation.exitCode !== 0)
+  core.info(`Nucel CLI ran ${invocations.length} time${invocations.length === 1 ? '' : 's'}, ${failed.length} failed`)
+  for (const invocation of failed) {
+    core.warning(`nucel ${invocation.args.join(' ')} failed: ${getStatus(invocation).replace('❌ ', '')}`, {
+      title: 'Nucel CLI command failed',
+    })
+  }
+
+  if (!process.env.GITHUB_STEP_SUMMARY || invocations.length === 0) {
+    return
+  }
+  try {
+    core.summary.addHeading('Nucel CLI usage', 3)
+    core.summary.addRaw(`${invocations.length} command${invocations.length === 1 ? '' : 's'}, ${failed.length} failed`, true)
+    core.summary.addTable([
+      [
+        { data: 'Command', header: true },
+        { data: 'Subcommand', header: true },
+        { data: 'Status', header: true },
+        { data: 'Duration', header: true },
+        { data: 'Started', header: true },
+      ],
+      ...invocations.map((invocation) => [
+        code(['nucel', ...invocation.args].join(' ')),
+        invocation.subcommand || '-',
+        getStatus(invocation),
+        `${invocation.durationMs} ms`,
+        invocation.startedAt,
+      ]),
+    ])
+    await core.summary.write()
+  } catch (error) {
+    core.warning(`Failed to write the Nucel CLI usage summary: ${error}`)
+  }
+}
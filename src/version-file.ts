@@ -0,0 +1,70 @@
+import * as core from '@actions/core'
+import * as fs from 'fs/promises'
+import * as path from 'path'
+
+const normalizeVersion = (version: string): string => version.trim().replace(/^v(?=\d)/, '')
+
+const parseVersionFile = (fileName: string, content: string): string | undefined => {
+  switch (fileName) {
+    case '.tool-versions': {
+      // asdf/mise format: `<tool> <version> [<fallback versions>...]`
+      for (const line of content.split(/\r?\n/)) {
+        const [tool, version] = line.replace(/#.*$/, '').trim().split(/\s+/)
+        if (tool === 'nucel' && version) {
+          return version
+        }
+      }
+      return undefined
+    }
+    case 'package.json': {
+      const pkg = JSON.parse(content) as { nucel?: unknown }
+      return typeof pkg.nucel === 'string' ? pkg.nucel : undefined
+    }
+    case 'nucel.config.json': {
+      const config = JSON.parse(content) as { cliVersion?: unknown }
+      return typeof config.cliVersion === 'string' ? config.cliVersion : undefined
+    }
+    default:
+      // `.nucel-version` and any other plain file: first non-comment line
+      return content
+        .split(/\r?\n/)
+        .map((line) => line.trim())
+        .find((line) => line && !line.startsWith('#'))
+  }
+}
+
+export const readVersionFile = async (versionFile: string): Promise<string> => {
+  const filePath = path.resolve(process.env.GITHUB_WORKSPACE || process.cwd(), versionFile)
+  let content: string
+  try {
+    content = await fs.readFile(filePath, 'utf-8')
+  } catch (error) {
+    throw new Error(`Failed to read version file ${versionFile}: ${error}`)
+  }
+
+  const version = parseVersionFile(path.basename(filePath), content)
+  if (!version) {
+    throw new Error(`No Nucel CLI version found in ${versionFile}`)
+  }
+  core.info(`Read Nucel CLI version ${version} from ${versionFile}`)
+  return normalizeVersion(version)
+}
+
+/**
+ * Picks the version spec from the `version` and `version-file` inputs.
+ * An explicit version wins over the version file, and falls back to `latest`.
+ */
+export const getVersionSpec = async (version: string, versionFile: string): Promise<string> => {
+  if (!versionFile) {
+    return version || 'latest'
+  }
+
+  const fileVersion = await readVersionFile(versionFile)
+  if (!version) {
+    return fileVersion
+  }
+  if (normalizeVersion(version) !== fileVersion) {
+    core.warning(`version input ${version} overrides ${fileVersion} from ${versionFile}`)
+  }
+  return version
+}
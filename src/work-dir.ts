@@ -0,0 +1,55 @@
+import * as core from '@actions/core'
+import * as fs from 'fs/promises'
+import * as os from 'os'
+import * as path from 'path'
+
+const WORK_DIR_PREFIX = 'setup-nucel-'
+const WORK_DIR_STATE = 'workDir'
+
+const getTempRoot = (): string => path.resolve(process.env.RUNNER_TEMP || os.tmpdir())
+
+/**
+ * Creates a directory unique to this run under RUNNER_TEMP for downloads, extracted archives and
+ * other scratch files, and records it for the post step.
+ */
+export const createWorkDir = async (): Promise<string> => {
+  const tempRoot = getTempRoot()
+  await fs.mkdir(tempRoot, { recursive: true })
+  const workDir = await fs.mkdtemp(path.join(tempRoot, WORK_DIR_PREFIX))
+  core.saveState(WORK_DIR_STATE, workDir)
+  core.debug(`Working directory: ${workDir}`)
+  return workDir
+}
+
+// Only a directory this action could have created qualifies, whatever ended up in the state
+const isOwnWorkDir = (workDir: string): boolean =>
+  path.isAbsolute(workDir) &&
+  path.dirname(path.resolve(workDir)) === getTempRoot() &&
+  path.basename(workDir).startsWith(WORK_DIR_PREFIX)
+
+/**
+ * Removes the working directory of the main step, logging everything in it.
+ */
+export const removeWorkDir = async (): Promise<void> => {
+  const workDir = core.getState(WORK_DIR_STATE)
+  if (!workDir) {
+    return
+  }
+  if (!isOwnWorkDir(workDir)) {
+    core.warning(`Not removing ${workDir}: it is not a setup-nucel working directory under ${getTempRoot()}`)
+    return
+  }
+
+  let entries: string[]
+  try {
+    entries = await fs.readdir(workDir)
+  } catch {
+    core.info(`Already removed: ${workDir}`)
+    return
+  }
+  for (const entry of entries) {
+    core.info(`Removing ${path.join(workDir, entry)}`)
+  }
+  await fs.rm(workDir, { recursive: true, force: true })
+  core.info(`Removed ${workDir}`)
+}
@@ -0,0 +1,50 @@
+import { expect, it, describe, vi, beforeEach, afterEach } from 'vitest'
+import { createAliases, getAliasName } from '../src/aliases.js'
+import * as core from '@actions/core'
+import * as fs from 'fs/promises'
+import * as os from 'os'
+import * as path from 'path'
+
+vi.mock('@actions/core')
+
+describe('createAliases', () => {
+  const originalPlatform = process.platform
+  let tempDir: string
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'setup-nucel-aliases-'))
+  })
+
+  afterEach(async () => {
+    Object.defineProperty(process, 'platform', { value: originalPlatform })
+    vi.restoreAllMocks()
+    await fs.rm(tempDir, { recursive: true, force: true })
+  })
+
+  it('should name aliases after the version', () => {
+    expect(getAliasName('2.0.0-beta.3')).toBe('nucel-2.0.0-beta.3')
+  })
+
+  it.skipIf(process.platform === 'win32')('should symlink each version', async () => {
+    const aliasDir = path.join(tempDir, 'bin')
+    const binaries = [
+      { version: '1.4.2', nucelPath: '/toolcache/nucel/1.4.2/x64/nucel' },
+      { version: '2.0.0-beta.3', nucelPath: '/toolcache/nucel/2.0.0-beta.3/x64/nucel' },
+    ]
+
+    await createAliases(binaries, aliasDir)
+
+    expect(await fs.readlink(path.join(aliasDir, 'nucel-1.4.2'))).toBe('/toolcache/nucel/1.4.2/x64/nucel')
+    expect(await fs.readlink(path.join(aliasDir, 'nucel-2.0.0-beta.3'))).toBe('/toolcache/nucel/2.0.0-beta.3/x64/nucel')
+    expect(core.info).toHaveBeenCalledWith('Added nucel-1.4.2 for /toolcache/nucel/1.4.2/x64/nucel')
+  })
+
+  it('should write a .cmd shim on Windows', async () => {
+    Object.defineProperty(process, 'platform', { value: 'win32' })
+    const nucelPath = 'C:\\hostedtoolcache\\nucel\\1.4.2\\x64\\nucel.exe'
+
+    await createAliases([{ version: '1.4.2', nucelPath }], tempDir)
+
+    expect(await fs.readFile(path.join(tempDir, 'nucel-1.4.2.cmd'), 'utf-8')).toBe(`@"${nucelPath}" %*\r\n`)
+  })
+})
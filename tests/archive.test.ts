@@ -0,0 +1,65 @@
+import { expect, it, describe, vi, beforeAll, afterAll } from 'vitest'
+import { detectArchiveFormat, extractArchive } from '../src/archive.js'
+import * as fs from 'fs/promises'
+import * as os from 'os'
+import * as path from 'path'
+
+vi.mock('@actions/core')
+
+describe('archive', () => {
+  let workDir: string
+
+  beforeAll(async () => {
+    workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'setup-nucel-archive-'))
+    process.env.RUNNER_TEMP = workDir
+  })
+
+  afterAll(async () => {
+    await fs.rm(workDir, { recursive: true, force: true })
+  })
+
+  const writeFile = async (name: string, bytes: number[]) => {
+    const filePath = path.join(workDir, name)
+    await fs.writeFile(filePath, Buffer.concat([Buffer.from(bytes), Buffer.from('payload')]))
+    return filePath
+  }
+
+  describe('detectArchiveFormat', () => {
+    it.each([
+      ['gzip', [0x1f, 0x8b, 0x08]],
+      ['xz', [0xfd, 0x37, 0x7a, 0x58, 0x5a, 0x00]],
+      ['zstd', [0x28, 0xb5, 0x2f, 0xfd]],
+      ['zip', [0x50, 0x4b, 0x03, 0x04]],
+      ['binary', [0x7f, 0x45, 0x4c, 0x46]],
+      ['binary', [0xcf, 0xfa, 0xed, 0xfe]],
+      ['binary', [0x4d, 0x5a, 0x90, 0x00]],
+    ])('should detect %s', async (format, magic) => {
+      expect(await detectArchiveFormat(await writeFile(`archive-${format}-${magic[0]}`, magic))).toBe(format)
+    })
+
+    it('should reject unknown formats', async () => {
+      const filePath = await writeFile('unknown', [0x3c, 0x21])
+
+      await expect(detectArchiveFormat(filePath)).rejects.toThrow('Unknown archive format (header 3c217061796c6f61)')
+    })
+
+    it('should reject empty files', async () => {
+      const filePath = path.join(workDir, 'empty')
+      await fs.writeFile(filePath, '')
+
+      await expect(detectArchiveFormat(filePath)).rejects.toThrow('Unknown archive format (header empty)')
+    })
+  })
+
+  describe('extractArchive', () => {
+    it('should place a raw binary under the expected name', async () => {
+      const filePath = await writeFile('nucel-cli-linux-x64', [0x7f, 0x45, 0x4c, 0x46])
+
+      const dest = path.join(workDir, 'extracted')
+      const extractedPath = await extractArchive(filePath, 'nucel', dest)
+
+      expect(extractedPath).toBe(dest)
+      expect(await fs.readFile(path.join(extractedPath, 'nucel'))).toEqual(await fs.readFile(filePath))
+    })
+  })
+})
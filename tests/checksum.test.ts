@@ -0,0 +1,25 @@
+import { expect, it, describe } from 'vitest'
+import { parseChecksumManifest } from '../src/checksum.js'
+
+describe('parseChecksumManifest', () => {
+  it('should parse text and binary mode entries', () => {
+    const manifest = [
+      `${'a'.repeat(64)}  nucel-cli-linux-x64.tar.gz`,
+      `${'B'.repeat(64)} *nucel-cli-win32-x64.zip`,
+      '',
+      'not a checksum line',
+    ].join('\n')
+
+    const checksums = parseChecksumManifest(manifest)
+
+    expect(checksums.get('nucel-cli-linux-x64.tar.gz')).toBe('a'.repeat(64))
+    expect(checksums.get('nucel-cli-win32-x64.zip')).toBe('b'.repeat(64))
+    expect(checksums.size).toBe(2)
+  })
+
+  it('should handle CRLF line endings', () => {
+    const checksums = parseChecksumManifest(`${'c'.repeat(64)}  nucel-cli-darwin-arm64.tar.gz\r\n`)
+
+    expect(checksums.get('nucel-cli-darwin-arm64.tar.gz')).toBe('c'.repeat(64))
+  })
+})
@@ -0,0 +1,106 @@
+import { expect, it, describe, vi, beforeEach, afterEach } from 'vitest'
+import { parseCommandOutput, runCommand } from '../src/command.js'
+import * as core from '@actions/core'
+import * as exec from '@actions/exec'
+import * as path from 'path'
+
+vi.mock('@actions/core')
+vi.mock('@actions/exec')
+
+describe('command', () => {
+  describe('parseCommandOutput', () => {
+    it('should parse deployment fields from JSON output', () => {
+      expect(parseCommandOutput('{"deploymentUrl":"https://web-abc.nucel.app","deploymentId":"dpl_123"}')).toEqual({
+        deploymentUrl: 'https://web-abc.nucel.app',
+        deploymentId: 'dpl_123',
+      })
+    })
+
+    it('should parse a nested deployment object', () => {
+      expect(parseCommandOutput(JSON.stringify({ deployment: { url: 'https://web.nucel.app', id: 42 } }, null, 2))).toEqual({
+        deploymentUrl: 'https://web.nucel.app',
+        deploymentId: '42',
+      })
+    })
+
+    it('should parse a JSON line after progress output', () => {
+      const stdout = ['Uploading 12 files...', 'Building...', '{"deployment_url":"https://web-abc.nucel.app","deployment_id":"dpl_9"}', ''].join('\n')
+
+      expect(parseCommandOutput(stdout)).toEqual({ deploymentUrl: 'https://web-abc.nucel.app', deploymentId: 'dpl_9' })
+    })
+
+    it.each(['Deployed to https://web-abc.nucel.app', '', '{ not json'])('should ignore %j', (stdout) => {
+      expect(parseCommandOutput(stdout)).toEqual({})
+    })
+  })
+
+  describe('runCommand', () => {
+    beforeEach(() => {
+      vi.mocked(core.group).mockImplementation((_name, fn) => fn())
+      process.env.GITHUB_WORKSPACE = '/workspace'
+    })
+
+    afterEach(() => {
+      delete process.env.GITHUB_WORKSPACE
+    })
+
+    it('should run the command in a log group and set the deployment outputs', async () => {
+      vi.mocked(exec.getExecOutput).mockResolvedValue({
+        exitCode: 0,
+        stdout: '{"deploymentUrl":"https://web-abc.nucel.app","deploymentId":"dpl_123"}\n',
+        stderr: '',
+      })
+
+      await runCommand('/toolcache/nucel', 'deploy --prod --message "Release 1.0"', 'apps/web')
+
+      expect(core.group).toHaveBeenCalledWith('Running nucel deploy --prod --message Release 1.0', expect.any(Function))
+      expect(exec.getExecOutput).toHaveBeenCalledWith('/toolcache/nucel', ['deploy', '--prod', '--message', 'Release 1.0'], {
+        cwd: path.resolve('/workspace', 'apps/web'),
+        ignoreReturnCode: true,
+      })
+      expect(core.setOutput).toHaveBeenCalledWith('deployment-url', 'https://web-abc.nucel.app')
+      expect(core.setOutput).toHaveBeenCalledWith('deployment-id', 'dpl_123')
+    })
+
+    it('should accept a command copied with the nucel prefix', async () => {
+      vi.mocked(exec.getExecOutput).mockResolvedValue({ exitCode: 0, stdout: 'Deployed', stderr: '' })
+
+      await runCommand('/toolcache/nucel', 'nucel deploy')
+
+      expect(exec.getExecOutput).toHaveBeenCalledWith('/toolcache/nucel', ['deploy'], {
+        cwd: path.resolve('/workspace'),
+        ignoreReturnCode: true,
+      })
+      expect(core.setOutput).not.toHaveBeenCalled()
+    })
+
+    it('should keep quoted arguments together', async () => {
+      vi.mocked(exec.getExecOutput).mockResolvedValue({ exitCode: 0, stdout: '', stderr: '' })
+
+      await runCommand('/toolcache/nucel', `deploy  --message 'Release "1.0"' --env "A=\\"b c\\"" ''`)
+
+      expect(exec.getExecOutput).toHaveBeenCalledWith(
+        '/toolcache/nucel',
+        ['deploy', '--message', 'Release "1.0"', '--env', 'A="b c"', ''],
+        expect.anything(),
+      )
+    })
+
+    it('should reject an unterminated quote', async () => {
+      await expect(runCommand('/toolcache/nucel', 'deploy --message "Release')).rejects.toThrow(
+        'command has an unterminated " quote',
+      )
+    })
+
+    it('should fail on a non-zero exit code', async () => {
+      vi.mocked(exec.getExecOutput).mockResolvedValue({ exitCode: 2, stdout: '', stderr: 'Project not found' })
+
+      await expect(runCommand('/toolcache/nucel', 'deploy')).rejects.toThrow('nucel deploy failed with exit code 2')
+    })
+
+    it('should reject an empty command', async () => {
+      await expect(runCommand('/toolcache/nucel', 'nucel')).rejects.toThrow('command must contain a Nucel CLI command')
+      expect(exec.getExecOutput).not.toHaveBeenCalled()
+    })
+  })
+})
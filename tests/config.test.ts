@@ -0,0 +1,117 @@
+import { expect, it, describe, vi, beforeEach, afterEach } from 'vitest'
+import { findConfigProblems, validateConfig } from '../src/config.js'
+import * as core from '@actions/core'
+import * as exec from '@actions/exec'
+import * as fs from 'fs/promises'
+import * as os from 'os'
+import * as path from 'path'
+
+vi.mock('@actions/core')
+vi.mock('@actions/exec')
+
+const schema = {
+  type: 'object',
+  required: ['name'],
+  properties: {
+    name: { type: 'string' },
+    region: { type: 'string' },
+    routes: { type: 'array', items: { type: 'object', properties: { path: { type: 'string' } } } },
+    env: { type: 'object', additionalProperties: { type: 'string' } },
+  },
+  additionalProperties: false,
+}
+
+describe('findConfigProblems', () => {
+  it('should accept a valid config', () => {
+    expect(findConfigProblems('{ "name": "web", "region": "eu-west" }', schema)).toEqual([])
+  })
+
+  it('should point unknown keys at the key', () => {
+    const config = ['{', '  "name": "web",', '  "regin": "eu-west"', '}'].join('\n')
+
+    expect(findConfigProblems(config, schema)).toEqual([{ message: 'Unknown key "regin"', line: 3, column: 3 }])
+  })
+
+  it('should point type errors at the value, including in arrays', () => {
+    const config = ['{', '  "name": "web",', '  "routes": [', '    { "path": "/" },', '    { "path": 404 }', '  ],', '  "env": { "DEBUG": true }', '}'].join('\n')
+
+    expect(findConfigProblems(config, schema)).toEqual([
+      { message: '/routes/1/path must be string', line: 5, column: 15 },
+      { message: '/env/DEBUG must be string', line: 7, column: 21 },
+    ])
+  })
+
+  it('should report missing required keys on the object', () => {
+    expect(findConfigProblems('\n{}', schema)).toEqual([
+      { message: "config must have required property 'name'", line: 2, column: 1 },
+    ])
+  })
+
+  it('should report JSON syntax errors where they occur', () => {
+    const config = ['{', '  "name": "web",', '  "region": "eu-west",', '}'].join('\n')
+
+    expect(findConfigProblems(config, schema)).toEqual([{ message: 'Invalid JSON: PropertyNameExpected', line: 4, column: 1 }])
+  })
+})
+
+describe('validateConfig', () => {
+  let workspace: string
+
+  beforeEach(async () => {
+    workspace = await fs.mkdtemp(path.join(os.tmpdir(), 'setup-nucel-config-'))
+    process.env.GITHUB_WORKSPACE = workspace
+    await fs.mkdir(path.join(workspace, 'web'))
+  })
+
+  afterEach(async () => {
+    vi.restoreAllMocks()
+    delete process.env.GITHUB_WORKSPACE
+    await fs.rm(workspace, { recursive: true, force: true })
+  })
+
+  it('should validate against the schema from the CLI', async () => {
+    vi.mocked(exec.getExecOutput).mockResolvedValue({ exitCode: 0, stdout: JSON.stringify(schema), stderr: '' })
+    await fs.writeFile(path.join(workspace, 'web', 'nucel.config.json'), '{\n  "name": 1\n}\n')
+
+    await expect(validateConfig('/tools/nucel', 'nucel.config.json', 'web')).rejects.toThrow(
+      'web/nucel.config.json has 1 problem, see the annotations',
+    )
+
+    expect(exec.getExecOutput).toHaveBeenCalledWith('/tools/nucel', ['config', 'schema'], expect.objectContaining({ silent: true }))
+    expect(core.error).toHaveBeenCalledWith('/name must be string', {
+      title: 'Invalid Nucel config',
+      file: 'web/nucel.config.json',
+      startLine: 2,
+      startColumn: 11,
+    })
+  })
+
+  it('should fall back to the bundled schema when the CLI has no schema command', async () => {
+    vi.mocked(exec.getExecOutput).mockResolvedValue({ exitCode: 2, stdout: '', stderr: 'unknown command "config"' })
+    await fs.writeFile(path.join(workspace, 'nucel.config.json'), JSON.stringify({ name: 'web', env: { API_URL: 'https://api' } }))
+
+    await validateConfig('/tools/nucel', 'nucel.config.json')
+
+    expect(core.error).not.toHaveBeenCalled()
+    expect(core.info).toHaveBeenCalledWith('nucel.config.json is valid according to the bundled schema')
+  })
+
+  it('should check the bundled schema', async () => {
+    vi.mocked(exec.getExecOutput).mockRejectedValue(new Error('spawn failed'))
+    await fs.writeFile(path.join(workspace, 'nucel.config.json'), JSON.stringify({ name: 'My App', env: { PORT: 3000 } }))
+
+    await expect(validateConfig('/tools/nucel', 'nucel.config.json')).rejects.toThrow('has 2 problems')
+
+    expect(core.error).toHaveBeenCalledWith('/name must match pattern "^[a-z0-9][a-z0-9-]*$"', expect.any(Object))
+    expect(core.error).toHaveBeenCalledWith('/env/PORT must be string', expect.any(Object))
+  })
+
+  it('should fail when the config is missing', async () => {
+    vi.mocked(exec.getExecOutput).mockResolvedValue({ exitCode: 0, stdout: JSON.stringify(schema), stderr: '' })
+
+    await expect(validateConfig('/tools/nucel', 'nucel.config.json', 'web')).rejects.toThrow(
+      'Could not read the Nucel config web/nucel.config.json',
+    )
+    expect(exec.getExecOutput).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,128 @@
+import { expect, it, describe, vi, beforeEach, afterEach } from 'vitest'
+import { exportDeploymentVariables, getDeploymentVariables } from '../src/deployment.js'
+import { getContext } from '../src/github.js'
+import * as core from '@actions/core'
+import * as path from 'path'
+
+vi.mock('@actions/core')
+
+const fixturesDir = path.join(import.meta.dirname, 'fixtures', 'events')
+
+// Mirrors the environment the runner sets up for each event
+const loadContext = async (eventName: string, env: Record<string, string>) => {
+  Object.assign(process.env, {
+    GITHUB_EVENT_NAME: eventName,
+    GITHUB_EVENT_PATH: path.join(fixturesDir, `${eventName}.json`),
+    GITHUB_REPOSITORY: 'nucel-cloud/web',
+    GITHUB_SERVER_URL: 'https://github.com',
+    GITHUB_RUN_ID: '9876543210',
+    ...env,
+  })
+  return await getContext()
+}
+
+describe('deployment variables', () => {
+  const env = { ...process.env }
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  afterEach(() => {
+    process.env = { ...env }
+  })
+
+  it('should export the branch of a push', async () => {
+    const context = await loadContext('push', {
+      GITHUB_SHA: '0d1a26e67d8f5eaf1f6ba5c57fc3c7d91ac0fd1c',
+      GITHUB_REF: 'refs/heads/main',
+      GITHUB_ACTOR: 'octocat',
+    })
+
+    expect(getDeploymentVariables(context)).toEqual({
+      NUCEL_EVENT_NAME: 'push',
+      NUCEL_COMMIT_SHA: '0d1a26e67d8f5eaf1f6ba5c57fc3c7d91ac0fd1c',
+      NUCEL_BRANCH: 'main',
+      NUCEL_ACTOR: 'octocat',
+      NUCEL_RUN_URL: 'https://github.com/nucel-cloud/web/actions/runs/9876543210',
+    })
+  })
+
+  it('should export the tag of a tag push', async () => {
+    const context = await loadContext('push', {
+      GITHUB_SHA: '0d1a26e67d8f5eaf1f6ba5c57fc3c7d91ac0fd1c',
+      GITHUB_REF: 'refs/tags/v2.0.0',
+      GITHUB_ACTOR: 'octocat',
+    })
+
+    const variables = getDeploymentVariables(context)
+
+    expect(variables.NUCEL_TAG).toBe('v2.0.0')
+    expect(variables).not.toHaveProperty('NUCEL_BRANCH')
+  })
+
+  it('should export the pull request number, head ref and head commit', async () => {
+    const context = await loadContext('pull_request', {
+      // The merge commit GitHub tests the pull request against
+      GITHUB_SHA: '3c6a4d1b0e8f7a2c9d5b6e4f1a0c8d7b2e9f6a35',
+      GITHUB_REF: 'refs/pull/42/merge',
+      GITHUB_ACTOR: 'octocat',
+    })
+
+    expect(getDeploymentVariables(context)).toEqual({
+      NUCEL_EVENT_NAME: 'pull_request',
+      NUCEL_COMMIT_SHA: 'ec26c3e57ca3a959ca5aad62de7213c562f8c821',
+      NUCEL_BRANCH: 'feature/previews',
+      NUCEL_PR_NUMBER: '42',
+      NUCEL_PR_HEAD_REF: 'feature/previews',
+      NUCEL_ACTOR: 'octocat',
+      NUCEL_RUN_URL: 'https://github.com/nucel-cloud/web/actions/runs/9876543210',
+    })
+  })
+
+  it('should export the dispatched branch of a workflow_dispatch', async () => {
+    const context = await loadContext('workflow_dispatch', {
+      GITHUB_SHA: 'a5b0c2f8e1d4c7b6a9f0e3d2c1b4a7f6e9d8c0b1',
+      GITHUB_REF: 'refs/heads/release/2024-05',
+      GITHUB_ACTOR: 'hubot',
+    })
+
+    expect(getDeploymentVariables(context)).toEqual({
+      NUCEL_EVENT_NAME: 'workflow_dispatch',
+      NUCEL_COMMIT_SHA: 'a5b0c2f8e1d4c7b6a9f0e3d2c1b4a7f6e9d8c0b1',
+      NUCEL_BRANCH: 'release/2024-05',
+      NUCEL_ACTOR: 'hubot',
+      NUCEL_RUN_URL: 'https://github.com/nucel-cloud/web/actions/runs/9876543210',
+    })
+  })
+
+  it('should export the tag of a release', async () => {
+    const context = await loadContext('release', {
+      GITHUB_SHA: 'f95f852bd8fca8fcc58a9a2d6c842781e32a215e',
+      GITHUB_REF: 'refs/tags/v2.1.0',
+      GITHUB_ACTOR: 'octocat',
+    })
+
+    expect(getDeploymentVariables(context)).toEqual({
+      NUCEL_EVENT_NAME: 'release',
+      NUCEL_COMMIT_SHA: 'f95f852bd8fca8fcc58a9a2d6c842781e32a215e',
+      NUCEL_TAG: 'v2.1.0',
+      NUCEL_ACTOR: 'octocat',
+      NUCEL_RUN_URL: 'https://github.com/nucel-cloud/web/actions/runs/9876543210',
+    })
+  })
+
+  it('should export the variables to later steps', async () => {
+    const context = await loadContext('pull_request', {
+      GITHUB_SHA: '3c6a4d1b0e8f7a2c9d5b6e4f1a0c8d7b2e9f6a35',
+      GITHUB_REF: 'refs/pull/42/merge',
+      GITHUB_ACTOR: 'octocat',
+    })
+
+    exportDeploymentVariables(context)
+
+    expect(core.exportVariable).toHaveBeenCalledWith('NUCEL_PR_NUMBER', '42')
+    expect(core.exportVariable).toHaveBeenCalledWith('NUCEL_BRANCH', 'feature/previews')
+    expect(core.exportVariable).toHaveBeenCalledTimes(7)
+  })
+})
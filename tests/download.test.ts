@@ -0,0 +1,89 @@
+import { expect, it, describe, vi, beforeEach } from 'vitest'
+import { downloadWithFallback } from '../src/download.js'
+import * as core from '@actions/core'
+import { downloadFile } from '../src/http.js'
+import { setTimeout as sleep } from 'timers/promises'
+
+vi.mock('@actions/core')
+vi.mock('../src/http.js')
+vi.mock('timers/promises')
+
+const httpError = (statusCode: number) =>
+  Object.assign(new Error(`Unexpected HTTP response: ${statusCode}`), { httpStatusCode: statusCode })
+
+const primary = { url: 'https://github.com/nucel/cli.tar.gz', headers: {} }
+const mirror = { url: 'https://mirror.example.com/cli.tar.gz', headers: { Authorization: 'Bearer token' } }
+const dest = '/runner/temp/setup-nucel-abc123/cli.tar.gz'
+
+describe('downloadWithFallback', () => {
+  beforeEach(() => {
+    vi.mocked(core.group).mockImplementation((_name, fn) => fn())
+  })
+
+  it('should retry server errors and timeouts with backoff', async () => {
+    vi.mocked(downloadFile)
+      .mockRejectedValueOnce(httpError(503))
+      .mockRejectedValueOnce(new Error('socket hang up'))
+      .mockResolvedValueOnce('/tmp/archive')
+
+    expect(await downloadWithFallback([primary], 'Nucel CLI 1.0.0', 3, dest)).toEqual({ path: '/tmp/archive', url: primary.url })
+
+    expect(downloadFile).toHaveBeenCalledTimes(3)
+    const delays = vi.mocked(sleep).mock.calls.map(([delay]) => delay as number)
+    expect(delays).toHaveLength(2)
+    expect(delays[0]).toBeGreaterThanOrEqual(1000)
+    expect(delays[0]).toBeLessThanOrEqual(1500)
+    expect(delays[1]).toBeGreaterThanOrEqual(2000)
+    expect(delays[1]).toBeLessThanOrEqual(3000)
+  })
+
+  it('should log each attempt in a group', async () => {
+    vi.mocked(downloadFile).mockRejectedValueOnce(httpError(500)).mockResolvedValueOnce('/tmp/archive')
+
+    await downloadWithFallback([primary], 'Nucel CLI 1.0.0', 3, dest)
+
+    expect(core.group).toHaveBeenCalledWith(
+      `Downloading Nucel CLI 1.0.0 from ${primary.url} (attempt 1/3)`,
+      expect.any(Function),
+    )
+    expect(core.group).toHaveBeenCalledWith(
+      `Downloading Nucel CLI 1.0.0 from ${primary.url} (attempt 2/3)`,
+      expect.any(Function),
+    )
+  })
+
+  it('should move on to the next source without retrying client errors', async () => {
+    vi.mocked(downloadFile).mockRejectedValueOnce(httpError(403)).mockResolvedValueOnce('/tmp/archive')
+
+    expect(await downloadWithFallback([primary, mirror], 'Nucel CLI 1.0.0', 3, dest)).toEqual({ path: '/tmp/archive', url: mirror.url })
+
+    expect(downloadFile).toHaveBeenNthCalledWith(2, mirror.url, dest, mirror.headers)
+    expect(sleep).not.toHaveBeenCalled()
+  })
+
+  it('should retry rate limiting', async () => {
+    vi.mocked(downloadFile).mockRejectedValueOnce(httpError(429)).mockResolvedValueOnce('/tmp/archive')
+
+    await downloadWithFallback([primary], 'Nucel CLI 1.0.0', 2, dest)
+
+    expect(downloadFile).toHaveBeenCalledTimes(2)
+  })
+
+  it('should report a version that no source publishes', async () => {
+    vi.mocked(downloadFile).mockRejectedValue(httpError(404))
+
+    await expect(downloadWithFallback([primary, mirror], 'Nucel CLI 9.9.9', 3, dest)).rejects.toThrow(
+      `Nucel CLI 9.9.9 is not published: ${primary.url}: not found, ${mirror.url}: not found`,
+    )
+    expect(downloadFile).toHaveBeenCalledTimes(2)
+  })
+
+  it('should report every failure once all sources are exhausted', async () => {
+    vi.mocked(downloadFile).mockRejectedValueOnce(httpError(404)).mockRejectedValue(httpError(502))
+
+    await expect(downloadWithFallback([primary, mirror], 'Nucel CLI 1.0.0', 2, dest)).rejects.toThrow(
+      `Failed to download Nucel CLI 1.0.0: ${primary.url}: not found, ${mirror.url}: Error: Unexpected HTTP response: 502`,
+    )
+    expect(downloadFile).toHaveBeenCalledTimes(3)
+  })
+})
@@ -0,0 +1,53 @@
+import { expect, it, describe, vi, beforeEach, afterEach } from 'vitest'
+import { HttpError, downloadFile } from '../src/http.js'
+import * as fs from 'fs/promises'
+import * as os from 'os'
+import * as path from 'path'
+
+describe('downloadFile', () => {
+  let tempDir: string
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'setup-nucel-http-'))
+  })
+
+  afterEach(async () => {
+    vi.unstubAllGlobals()
+    await fs.rm(tempDir, { recursive: true, force: true })
+  })
+
+  it('should write the body to dest with a single request', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(new Response('nucel archive'))
+    vi.stubGlobal('fetch', fetchMock)
+    const dest = path.join(tempDir, '1.3.0', 'cli.tar.gz')
+
+    expect(await downloadFile('https://mirror.example.com/cli.tar.gz', dest, { Authorization: 'Bearer token' })).toBe(dest)
+
+    expect(await fs.readFile(dest, 'utf-8')).toBe('nucel archive')
+    expect(fetchMock).toHaveBeenCalledTimes(1)
+    expect(fetchMock).toHaveBeenCalledWith('https://mirror.example.com/cli.tar.gz', { headers: { Authorization: 'Bearer token' } })
+  })
+
+  it('should throw the status code of a failed response', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue(new Response('', { status: 503, statusText: 'Service Unavailable' })))
+
+    const error = await downloadFile('https://mirror.example.com/cli.tar.gz', path.join(tempDir, 'cli.tar.gz'), {}).catch((error) => error)
+
+    expect(error).toBeInstanceOf(HttpError)
+    expect(error).toMatchObject({ httpStatusCode: 503, message: 'Unexpected HTTP response: 503 Service Unavailable' })
+  })
+
+  it('should remove a partial file when the body is cut off', async () => {
+    const body = new ReadableStream({
+      start(controller) {
+        controller.enqueue(new TextEncoder().encode('nucel'))
+        controller.error(new Error('socket hang up'))
+      },
+    })
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue(new Response(body)))
+    const dest = path.join(tempDir, 'cli.tar.gz')
+
+    await expect(downloadFile('https://mirror.example.com/cli.tar.gz', dest, {})).rejects.toThrow('socket hang up')
+    await expect(fs.access(dest)).rejects.toThrow()
+  })
+})
@@ -0,0 +1,34 @@
+import { expect, it, describe } from 'vitest'
+import { InstallRecord, findReuseMismatch } from '../src/install-record.js'
+
+describe('findReuseMismatch', () => {
+  const record: InstallRecord = { sha256: 'a'.repeat(64), verified: true, provenance: false }
+
+  it('should reuse a verified install whose digest matches', () => {
+    expect(findReuseMismatch(record, {})).toBeNull()
+    expect(findReuseMismatch(record, { expectedSha256: 'a'.repeat(64) })).toBeNull()
+  })
+
+  it('should refuse a digest that does not match the expected one', () => {
+    expect(findReuseMismatch(record, { expectedSha256: 'b'.repeat(64), allowUnverified: true })).toBe(
+      `its archive has digest ${'a'.repeat(64)}, expected ${'b'.repeat(64)}`,
+    )
+  })
+
+  it('should refuse an install without provenance when verify-provenance is set', () => {
+    expect(findReuseMismatch(record, { verifyProvenance: true })).toBe('the provenance of its archive was not verified')
+    expect(findReuseMismatch({ ...record, provenance: true }, { verifyProvenance: true })).toBeNull()
+  })
+
+  it('should only reuse unverified or unrecorded installs with allow-unverified', () => {
+    const unverified = { ...record, verified: false }
+
+    expect(findReuseMismatch(unverified, {})).toBe('its archive was installed without verification')
+    expect(findReuseMismatch(unverified, { allowUnverified: true })).toBeNull()
+    expect(findReuseMismatch(null, {})).toBe('there is no record of the archive it came from')
+    expect(findReuseMismatch(null, { allowUnverified: true })).toBeNull()
+    expect(findReuseMismatch(null, { verifyProvenance: true, allowUnverified: true })).toBe(
+      'the provenance of its archive was not verified',
+    )
+  })
+})
@@ -0,0 +1,130 @@
+import { expect, it, describe, beforeEach, afterEach } from 'vitest'
+import { parseFileCommands, parseLocalArgs, readActionInputs, runLocally } from '../src/local-runner.js'
+import * as core from '@actions/core'
+import * as fs from 'fs/promises'
+import * as os from 'os'
+import * as path from 'path'
+
+const actionPath = path.join(import.meta.dirname, '..', 'action.yaml')
+const eventsDir = path.join(import.meta.dirname, 'fixtures', 'events')
+
+describe('parseLocalArgs', () => {
+  it('should split runner options from action inputs', () => {
+    expect(
+      parseLocalArgs(['--version', '1.2.3', '--event', 'push.json', '--download-base-url=http://localhost:8080', '--check-latest']),
+    ).toEqual({
+      inputs: { version: '1.2.3', 'download-base-url': 'http://localhost:8080', 'check-latest': 'true' },
+      eventPath: 'push.json',
+      eventName: undefined,
+      outDir: '.local-run',
+      actionPath: undefined,
+    })
+  })
+
+  it('should reject positional arguments', () => {
+    expect(() => parseLocalArgs(['1.2.3'])).toThrow('Unexpected argument "1.2.3", expected --<input> <value>')
+  })
+})
+
+describe('parseFileCommands', () => {
+  it('should read plain and delimited values', () => {
+    const text = ['isPost=true', 'versions<<ghadelimiter_1', '{"1.2.3":"/tmp/nucel"}', 'ghadelimiter_1', 'multi<<EOF', 'a', 'b', 'EOF', ''].join(
+      os.EOL,
+    )
+
+    expect(parseFileCommands(text)).toEqual({ isPost: 'true', versions: '{"1.2.3":"/tmp/nucel"}', multi: 'a\nb' })
+  })
+
+  it('should fail on a missing delimiter', () => {
+    expect(() => parseFileCommands('name<<EOF\nvalue\n')).toThrow('Missing delimiter EOF for name')
+  })
+})
+
+describe('readActionInputs', () => {
+  it('should read every input of action.yaml with its default', async () => {
+    const inputs = await readActionInputs(actionPath)
+
+    expect(inputs).toMatchObject({ version: '', 'problem-matcher': 'true', 'download-retries': '2', 'install-source': 'release' })
+    expect(inputs['github-token']).toBe(process.env.GITHUB_TOKEN ?? '')
+  })
+})
+
+describe('runLocally', () => {
+  let outDir: string
+
+  beforeEach(async () => {
+    outDir = await fs.mkdtemp(path.join(os.tmpdir(), 'setup-nucel-local-'))
+  })
+
+  afterEach(async () => {
+    await fs.rm(outDir, { recursive: true, force: true })
+  })
+
+  // Behaves like the action: the main step saves state for the post step
+  const step = async () => {
+    if (process.env.STATE_isPost) {
+      core.setOutput('post-saw', `${core.getState('installDir')} ${process.env.NUCEL_EXPORTED}`)
+      return
+    }
+    core.saveState('isPost', 'true')
+    core.saveState('installDir', '/tmp/nucel/1.2.3')
+    core.setOutput('version', core.getInput('version'))
+    core.setOutput('matcher', String(core.getBooleanInput('problem-matcher')))
+    core.setOutput('event', `${process.env.GITHUB_EVENT_NAME} ${process.env.GITHUB_REPOSITORY} ${process.env.GITHUB_SHA}`)
+    core.exportVariable('NUCEL_EXPORTED', 'yes')
+    core.addPath('/tmp/nucel/1.2.3')
+  }
+
+  it('should run the main and post steps with the file commands in the output directory', async () => {
+    const result = await runLocally(
+      { inputs: { version: '1.2.3' }, eventPath: path.join(eventsDir, 'push.json'), outDir, actionPath },
+      step,
+    )
+
+    expect(result).toEqual({
+      outputs: {
+        version: '1.2.3',
+        matcher: 'true',
+        event: 'push nucel-cloud/web 0d1a26e67d8f5eaf1f6ba5c57fc3c7d91ac0fd1c',
+        'post-saw': '/tmp/nucel/1.2.3 yes',
+      },
+      state: { isPost: 'true', installDir: '/tmp/nucel/1.2.3' },
+      env: { NUCEL_EXPORTED: 'yes' },
+      path: ['/tmp/nucel/1.2.3'],
+      mainFailed: false,
+      postFailed: false,
+    })
+    expect(await fs.readFile(path.join(outDir, 'path'), 'utf-8')).toBe(`/tmp/nucel/1.2.3${os.EOL}`)
+    expect(process.env.NUCEL_EXPORTED).toBeUndefined()
+    expect(process.env.INPUT_VERSION).toBeUndefined()
+  })
+
+  it('should infer the event name from the payload', async () => {
+    const result = await runLocally(
+      { inputs: {}, eventPath: path.join(eventsDir, 'pull_request.json'), outDir, actionPath },
+      async () => core.setOutput('event', process.env.GITHUB_EVENT_NAME),
+    )
+
+    expect(result.outputs.event).toBe('pull_request')
+  })
+
+  it('should report a failed main step and still run the post step', async () => {
+    const result = await runLocally({ inputs: {}, outDir, actionPath }, async () => {
+      if (process.env.STATE_isPost) {
+        core.setOutput('post', 'ran')
+      } else {
+        core.saveState('isPost', 'true')
+        core.setFailed('download failed')
+      }
+    })
+
+    expect(result).toMatchObject({ outputs: { post: 'ran' }, mainFailed: true, postFailed: false })
+    expect(process.exitCode).toBeUndefined()
+  })
+
+  it('should reject inputs the action does not have', async () => {
+    await expect(runLocally({ inputs: { versoin: '1.2.3' }, outDir, actionPath }, step)).rejects.toThrow(
+      'Unknown input --versoin. The action has version, default-version',
+    )
+  })
+})
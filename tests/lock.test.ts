@@ -0,0 +1,157 @@
+import { expect, it, describe, vi, beforeEach, afterEach } from 'vitest'
+import { withLock } from '../src/lock.js'
+import * as core from '@actions/core'
+import * as fs from 'fs/promises'
+import * as os from 'os'
+import * as path from 'path'
+import { setTimeout as sleep } from 'timers/promises'
+
+vi.mock('@actions/core')
+vi.mock('timers/promises')
+
+const writeLock = (lockPath: string, owner: object) => fs.writeFile(lockPath, JSON.stringify(owner))
+
+describe('withLock', () => {
+  let tempDir: string
+  let lockPath: string
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'setup-nucel-lock-'))
+    lockPath = path.join(tempDir, 'nucel', '1.3.0', 'x64.lock')
+  })
+
+  afterEach(async () => {
+    vi.restoreAllMocks()
+    await fs.rm(tempDir, { recursive: true, force: true })
+  })
+
+  it('should hold the lock while the function runs and release it afterwards', async () => {
+    const result = await withLock(
+      lockPath,
+      async (waited) => {
+        const owner = JSON.parse(await fs.readFile(lockPath, 'utf-8'))
+        expect(owner).toMatchObject({ pid: process.pid, hostname: os.hostname() })
+        expect(waited).toBe(false)
+        return 'installed'
+      },
+      { timeoutMs: 1000 },
+    )
+
+    expect(result).toBe('installed')
+    await expect(fs.access(lockPath)).rejects.toThrow()
+  })
+
+  it('should release the lock when the function fails', async () => {
+    await expect(
+      withLock(lockPath, async () => Promise.reject(new Error('extract failed')), { timeoutMs: 1000 }),
+    ).rejects.toThrow('extract failed')
+    await expect(fs.access(lockPath)).rejects.toThrow()
+  })
+
+  it('should run parallel holders one after another', async () => {
+    vi.mocked(sleep).mockImplementation(() => new Promise((resolve) => setImmediate(resolve)))
+    const events: string[] = []
+    const hold = (name: string) =>
+      withLock(
+        lockPath,
+        async () => {
+          events.push(`${name} start`)
+          await new Promise((resolve) => setTimeout(resolve, 20))
+          events.push(`${name} end`)
+          return name
+        },
+        { timeoutMs: 5000 },
+      )
+
+    expect(await Promise.all([hold('a'), hold('b'), hold('c')])).toEqual(['a', 'b', 'c'])
+    for (let i = 0; i < events.length; i += 2) {
+      expect(events[i + 1]).toBe(events[i].replace('start', 'end'))
+    }
+  })
+
+  it('should tell the function that it waited for another holder', async () => {
+    await fs.mkdir(path.dirname(lockPath), { recursive: true })
+    await writeLock(lockPath, { pid: process.pid, hostname: os.hostname(), createdAt: '2026-01-01T00:00:00.000Z' })
+    vi.mocked(sleep).mockImplementation(async () => {
+      await fs.rm(lockPath)
+    })
+
+    const waited = await withLock(lockPath, async (waited) => waited, { timeoutMs: 5000 })
+
+    expect(waited).toBe(true)
+    expect(core.info).toHaveBeenCalledWith(
+      `Waiting for lock ${lockPath} held by process ${process.pid} on ${os.hostname()} since 2026-01-01T00:00:00.000Z`,
+    )
+  })
+
+  it('should give up after the timeout', async () => {
+    await fs.mkdir(path.dirname(lockPath), { recursive: true })
+    await writeLock(lockPath, { pid: process.pid, hostname: os.hostname(), createdAt: '2026-01-01T00:00:00.000Z' })
+    const fn = vi.fn()
+
+    await expect(withLock(lockPath, fn, { timeoutMs: 0 })).rejects.toThrow(
+      `Timed out after 0s waiting for lock ${lockPath} held by process ${process.pid}`,
+    )
+    expect(fn).not.toHaveBeenCalled()
+    expect(JSON.parse(await fs.readFile(lockPath, 'utf-8')).pid).toBe(process.pid)
+  })
+
+  it('should take over a lock left by a process that no longer exists', async () => {
+    await fs.mkdir(path.dirname(lockPath), { recursive: true })
+    // Above the default pid_max, so no process can have it
+    await writeLock(lockPath, { pid: 2 ** 22 + 1, hostname: os.hostname(), createdAt: '2026-01-01T00:00:00.000Z' })
+
+    await withLock(lockPath, async () => {}, { timeoutMs: 0 })
+
+    expect(core.warning).toHaveBeenCalledWith(
+      `Removing stale lock ${lockPath} held by process ${2 ** 22 + 1} on ${os.hostname()} since 2026-01-01T00:00:00.000Z`,
+    )
+  })
+
+  it('should take over an old lock from another host', async () => {
+    await fs.mkdir(path.dirname(lockPath), { recursive: true })
+    await writeLock(lockPath, { pid: process.pid, hostname: 'other-runner', createdAt: '2026-01-01T00:00:00.000Z' })
+    const old = new Date(Date.now() - 60_000)
+    await fs.utimes(lockPath, old, old)
+
+    await withLock(lockPath, async () => {}, { timeoutMs: 0, staleMs: 30_000 })
+
+    expect(core.warning).toHaveBeenCalledWith(expect.stringContaining(`held by process ${process.pid} on other-runner`))
+  })
+
+  it('should keep an old lock held by a live process on this host', async () => {
+    await fs.mkdir(path.dirname(lockPath), { recursive: true })
+    await writeLock(lockPath, { pid: process.pid, hostname: os.hostname(), createdAt: '2026-01-01T00:00:00.000Z' })
+    const old = new Date(Date.now() - 60_000)
+    await fs.utimes(lockPath, old, old)
+
+    await expect(withLock(lockPath, async () => {}, { timeoutMs: 0, staleMs: 30_000 })).rejects.toThrow('Timed out')
+    expect(core.warning).not.toHaveBeenCalled()
+  })
+
+  it('should refresh the lock while the function runs', async () => {
+    const old = new Date(Date.now() - 60_000)
+
+    await withLock(
+      lockPath,
+      async () => {
+        await fs.utimes(lockPath, old, old)
+        await new Promise((resolve) => setTimeout(resolve, 100))
+        expect((await fs.stat(lockPath)).mtimeMs).toBeGreaterThan(old.getTime() + 30_000)
+      },
+      { timeoutMs: 1000, staleMs: 30 },
+    )
+  })
+
+  it('should judge an unreadable lock by its age alone', async () => {
+    await fs.mkdir(path.dirname(lockPath), { recursive: true })
+    await fs.writeFile(lockPath, '{"pid":')
+
+    await expect(withLock(lockPath, async () => {}, { timeoutMs: 0 })).rejects.toThrow('held by an unknown process')
+
+    const old = new Date(Date.now() - 60_000)
+    await fs.utimes(lockPath, old, old)
+    await withLock(lockPath, async () => {}, { timeoutMs: 0, staleMs: 30_000 })
+    expect(core.warning).toHaveBeenCalledWith(`Removing stale lock ${lockPath} held by an unknown process`)
+  })
+})
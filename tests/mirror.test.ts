@@ -0,0 +1,157 @@
+import { expect, it, describe, vi, beforeAll, afterAll, afterEach } from 'vitest'
+import { run } from '../src/run.js'
+import type { Context } from '../src/github.js'
+import * as core from '@actions/core'
+import * as cache from '@actions/cache'
+import * as crypto from 'crypto'
+import * as fs from 'fs/promises'
+import * as http from 'http'
+import * as net from 'net'
+import * as os from 'os'
+import * as path from 'path'
+import { execFileSync } from 'child_process'
+import { Agent, setGlobalDispatcher } from 'undici'
+
+vi.mock('@actions/core')
+vi.mock('@actions/cache')
+
+const context: Context = {
+  eventName: 'push',
+  repo: { owner: 'test-owner', repo: 'test-repo' },
+  sha: 'abc123',
+  ref: 'refs/heads/main',
+  actor: 'test-user',
+  runUrl: 'https://github.com/test-owner/test-repo/actions/runs/1',
+  payload: {},
+}
+
+// End-to-end install from a local stand-in for an internal artifact mirror
+describe.skipIf(process.platform === 'win32')('download mirror', () => {
+  const assetName = `nucel-${process.platform}-${process.arch}-1.3.0.tar.gz`
+  let workDir: string
+  let mirror: http.Server
+  let mirrorUrl: string
+  let requests: { url: string; authorization?: string }[]
+
+  const listen = (server: net.Server) =>
+    new Promise<number>((resolve) => server.listen(0, '127.0.0.1', () => resolve((server.address() as net.AddressInfo).port)))
+
+  beforeAll(async () => {
+    workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'setup-nucel-mirror-'))
+
+    // A fake CLI that only knows --version
+    const buildDir = path.join(workDir, 'build')
+    await fs.mkdir(buildDir)
+    const binaryName = `nucel-cli-${process.platform}-${process.arch}`
+    await fs.writeFile(path.join(buildDir, binaryName), '#!/bin/sh\necho "nucel 1.3.0"\n', { mode: 0o755 })
+    const archivePath = path.join(workDir, assetName)
+    execFileSync('tar', ['czf', archivePath, '-C', buildDir, binaryName])
+    const archive = await fs.readFile(archivePath)
+    const digest = crypto.createHash('sha256').update(archive).digest('hex')
+
+    const files: Record<string, Buffer | string> = {
+      '/nucel/releases.json': JSON.stringify([
+        {
+          tag_name: 'cli-v1.3.0',
+          draft: false,
+          prerelease: false,
+          assets: [assetName, 'SHA256SUMS'].map((name) => ({ name, browser_download_url: `https://github.invalid/${name}` })),
+        },
+      ]),
+      [`/nucel/cli-v1.3.0/${assetName}`]: archive,
+      '/nucel/cli-v1.3.0/SHA256SUMS': `${digest}  ${assetName}\n`,
+    }
+
+    mirror = http.createServer((req, res) => {
+      requests.push({ url: req.url ?? '', authorization: req.headers.authorization })
+      if (req.headers.authorization !== 'Bearer mirror-token') {
+        res.writeHead(401).end()
+        return
+      }
+      const body = files[req.url ?? '']
+      if (body === undefined) {
+        res.writeHead(404).end()
+        return
+      }
+      res.writeHead(200).end(body)
+    })
+    mirrorUrl = `http://127.0.0.1:${await listen(mirror)}/nucel`
+  })
+
+  afterAll(async () => {
+    await new Promise((resolve) => mirror.close(resolve))
+    await fs.rm(workDir, { recursive: true, force: true })
+  })
+
+  afterEach(async () => {
+    requests = []
+    delete process.env.HTTP_PROXY
+    setGlobalDispatcher(new Agent())
+    await fs.rm(path.join(workDir, 'toolcache'), { recursive: true, force: true })
+  })
+
+  const runWithMirror = async (baseUrl: string) => {
+    vi.mocked(core.group).mockImplementation((_name, fn) => fn())
+    process.env.RUNNER_TOOL_CACHE = path.join(workDir, 'toolcache')
+    process.env.RUNNER_TEMP = path.join(workDir, 'temp')
+    vi.mocked(cache.restoreCache).mockResolvedValue(undefined)
+
+    await run(
+      {
+        version: '^1',
+        downloadBaseUrl: `${baseUrl}/`,
+        assetNamePattern: 'nucel-{platform}-{arch}-{version}{ext}',
+        downloadHeaders: { Authorization: 'Bearer mirror-token' },
+      },
+      context,
+    )
+  }
+
+  it('should resolve, download and verify the CLI from the mirror', async () => {
+    requests = []
+    await runWithMirror(mirrorUrl)
+
+    expect(requests.map((request) => request.url)).toEqual([
+      '/nucel/releases.json',
+      `/nucel/cli-v1.3.0/${assetName}`,
+      '/nucel/cli-v1.3.0/SHA256SUMS',
+    ])
+    expect(requests.every((request) => request.authorization === 'Bearer mirror-token')).toBe(true)
+
+    const cliPath = path.join(workDir, 'toolcache', 'nucel', '1.3.0', process.arch, 'nucel')
+    expect(core.setOutput).toHaveBeenCalledWith('cli-path', cliPath)
+    expect(core.setOutput).toHaveBeenCalledWith('cli-version', '1.3.0')
+    expect(core.info).toHaveBeenCalledWith(expect.stringMatching(/^Checksum verified: sha256:/))
+  })
+
+  it('should reach the mirror through HTTP_PROXY', async () => {
+    requests = []
+    const tunnels: string[] = []
+    const mirrorPort = new URL(mirrorUrl).port
+    const proxy = http.createServer((_req, res) => res.writeHead(405).end())
+    proxy.on('connect', (req: http.IncomingMessage, socket: net.Socket) => {
+      tunnels.push(req.url ?? '')
+      const upstream = net.connect(Number(mirrorPort), '127.0.0.1', () => {
+        socket.write('HTTP/1.1 200 Connection Established\r\n\r\n')
+        upstream.pipe(socket)
+        socket.pipe(upstream)
+      })
+      upstream.on('error', () => socket.destroy())
+      socket.on('error', () => upstream.destroy())
+    })
+    process.env.HTTP_PROXY = `http://127.0.0.1:${await listen(proxy)}`
+
+    try {
+      // The host only resolves through the proxy
+      await runWithMirror(`http://nucel-mirror.invalid:${mirrorPort}/nucel`)
+    } finally {
+      proxy.closeAllConnections()
+      await new Promise((resolve) => proxy.close(resolve))
+    }
+
+    // Every request goes through fetch, which can reuse one tunnel for all of them
+    expect(tunnels.length).toBeGreaterThanOrEqual(1)
+    expect(tunnels.every((tunnel) => tunnel === `nucel-mirror.invalid:${mirrorPort}`)).toBe(true)
+    expect(requests).toHaveLength(3)
+  })
+})
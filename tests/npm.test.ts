@@ -0,0 +1,134 @@
+import { expect, it, describe, vi, beforeEach, afterEach } from 'vitest'
+import { installNpmPackage, resolveNpmVersion } from '../src/npm.js'
+import * as core from '@actions/core'
+import * as exec from '@actions/exec'
+import * as fs from 'fs/promises'
+import * as os from 'os'
+import * as path from 'path'
+
+vi.mock('@actions/core')
+vi.mock('@actions/exec')
+
+const npmView = (stdout: string, exitCode = 0, stderr = '') =>
+  vi.mocked(exec.getExecOutput).mockResolvedValue({ exitCode, stdout, stderr })
+
+describe('npm', () => {
+  let workDir: string
+
+  beforeEach(async () => {
+    workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'setup-nucel-npm-'))
+    vi.mocked(core.group).mockImplementation((_name, fn) => fn())
+  })
+
+  afterEach(async () => {
+    vi.restoreAllMocks()
+    await fs.rm(workDir, { recursive: true, force: true })
+  })
+
+  describe('resolveNpmVersion', () => {
+    it('should pick the highest version in a range', async () => {
+      npmView('["1.2.3", "1.10.0", "1.9.1"]')
+
+      expect(await resolveNpmVersion('^1', { workDir })).toBe('1.10.0')
+      expect(exec.getExecOutput).toHaveBeenCalledWith(
+        'npm',
+        ['view', '@nucel.cloud/cli@^1', 'version', '--json'],
+        expect.objectContaining({ silent: true, ignoreReturnCode: true }),
+      )
+    })
+
+    it('should not pick a prerelease for a range', async () => {
+      npmView('["1.2.3", "2.0.0-beta.1"]')
+
+      expect(await resolveNpmVersion('*', { workDir })).toBe('1.2.3')
+    })
+
+    it('should resolve channels through dist-tags', async () => {
+      npmView('"2.0.0-beta.4"')
+      expect(await resolveNpmVersion('beta', { workDir })).toBe('2.0.0-beta.4')
+      expect(exec.getExecOutput).toHaveBeenLastCalledWith('npm', ['view', '@nucel.cloud/cli@beta', 'version', '--json'], expect.any(Object))
+
+      npmView('"1.4.0"')
+      expect(await resolveNpmVersion('stable', { workDir })).toBe('1.4.0')
+      expect(exec.getExecOutput).toHaveBeenLastCalledWith('npm', ['view', '@nucel.cloud/cli@latest', 'version', '--json'], expect.any(Object))
+    })
+
+    it('should fail when no version matches', async () => {
+      npmView('')
+
+      await expect(resolveNpmVersion('9.9.9', { workDir })).rejects.toThrow('No version of @nucel.cloud/cli matches "9.9.9"')
+    })
+
+    it('should report npm errors', async () => {
+      npmView('', 1, 'npm error code E401\nnpm error Unable to authenticate')
+
+      await expect(resolveNpmVersion('latest', { workDir })).rejects.toThrow(
+        'Failed to resolve @nucel.cloud/cli@latest from npm: npm error code E401',
+      )
+    })
+
+    it("should keep the runner's npm configuration without a registry or token", async () => {
+      npmView('"1.4.0"')
+
+      await resolveNpmVersion('latest', { workDir })
+
+      expect(await fs.readdir(workDir)).toEqual([])
+    })
+
+    it('should read the token from the environment rather than from the .npmrc', async () => {
+      npmView('"1.4.0"')
+
+      await resolveNpmVersion('latest', { workDir, token: 'npm-secret' })
+
+      const npmrcPath = path.join(workDir, '.npmrc')
+      const npmrc = await fs.readFile(npmrcPath, 'utf-8')
+      expect(npmrc).toBe('registry=https://registry.npmjs.org/\n//registry.npmjs.org/:_authToken=${NUCEL_NPM_TOKEN}\n')
+      expect(npmrc).not.toContain('npm-secret')
+      expect(exec.getExecOutput).toHaveBeenCalledWith(
+        'npm',
+        ['view', '@nucel.cloud/cli@latest', 'version', '--json', '--userconfig', npmrcPath],
+        expect.objectContaining({ env: expect.objectContaining({ NUCEL_NPM_TOKEN: 'npm-secret' }) }),
+      )
+    })
+  })
+
+  describe('installNpmPackage', () => {
+    it('should install into the prefix and return the linked executable', async () => {
+      const prefix = path.join(workDir, 'npm')
+      vi.mocked(exec.exec).mockImplementation(async () => {
+        await fs.mkdir(path.join(prefix, 'node_modules', '.bin'), { recursive: true })
+        await fs.writeFile(path.join(prefix, 'node_modules', '.bin', 'nucel'), '#!/usr/bin/env node\n')
+        return 0
+      })
+
+      const binaryPath = await installNpmPackage('1.4.0', prefix, 'linux', { workDir, registryUrl: 'https://npm.example.com' })
+
+      expect(binaryPath).toBe(path.join(prefix, 'node_modules', '.bin', 'nucel'))
+      expect(exec.exec).toHaveBeenCalledWith(
+        'npm',
+        [
+          'install',
+          '@nucel.cloud/cli@1.4.0',
+          '--prefix',
+          prefix,
+          '--save-exact',
+          '--no-audit',
+          '--no-fund',
+          '--userconfig',
+          path.join(workDir, '.npmrc'),
+        ],
+        expect.any(Object),
+      )
+      expect(await fs.readFile(path.join(workDir, '.npmrc'), 'utf-8')).toBe('registry=https://npm.example.com/\n')
+    })
+
+    it('should fail when the package does not link a nucel executable', async () => {
+      const prefix = path.join(workDir, 'npm')
+      vi.mocked(exec.exec).mockResolvedValue(0)
+
+      await expect(installNpmPackage('1.4.0', prefix, 'win32', { workDir })).rejects.toThrow(
+        `@nucel.cloud/cli@1.4.0 did not install a nucel executable at ${path.join(prefix, 'node_modules', '.bin', 'nucel.cmd')}`,
+      )
+    })
+  })
+})
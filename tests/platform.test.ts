@@ -0,0 +1,114 @@
+import { expect, it, describe, vi, beforeEach, afterEach } from 'vitest'
+import { getPlatformInfo, getSupportedTargets, getToolArch } from '../src/platform.js'
+import * as fs from 'fs'
+
+vi.mock('@actions/core')
+vi.mock('fs')
+
+describe('getPlatformInfo', () => {
+  const { platform, arch } = process
+  const { config } = process
+
+  const setPlatform = (value: string, archValue: string) => {
+    Object.defineProperty(process, 'platform', { value, writable: true })
+    Object.defineProperty(process, 'arch', { value: archValue, writable: true })
+  }
+
+  const setArmVersion = (arm_version: string) => {
+    Object.defineProperty(process, 'config', { value: { ...config, variables: { ...config.variables, arm_version } } })
+  }
+
+  const setGlibcVersion = (glibcVersionRuntime?: string) => {
+    vi.spyOn(process.report, 'getReport').mockReturnValue({ header: { glibcVersionRuntime } } as any)
+  }
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.mocked(fs.readdirSync).mockReturnValue([])
+    delete process.env.PROCESSOR_ARCHITECTURE
+    delete process.env.PROCESSOR_ARCHITEW6432
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+    setPlatform(platform, arch)
+    Object.defineProperty(process, 'config', { value: config })
+  })
+
+  it('should detect glibc Linux', () => {
+    setPlatform('linux', 'x64')
+    setGlibcVersion('2.35')
+
+    expect(getPlatformInfo()).toEqual({
+      platform: 'linux',
+      arch: 'x64',
+      libc: 'glibc',
+      target: 'linux-x64',
+      ext: '.tar.gz',
+      binaryName: 'nucel',
+    })
+  })
+
+  it('should detect musl Linux from the musl loader', () => {
+    setPlatform('linux', 'arm64')
+    setGlibcVersion(undefined)
+    vi.mocked(fs.readdirSync).mockReturnValue(['ld-musl-aarch64.so.1'] as any)
+
+    const info = getPlatformInfo()
+
+    expect(info.libc).toBe('musl')
+    expect(info.target).toBe('linux-arm64-musl')
+    expect(getToolArch(info)).toBe('arm64-musl')
+  })
+
+  it('should detect ARMv7', () => {
+    setPlatform('linux', 'arm')
+    setGlibcVersion('2.31')
+    setArmVersion('7')
+
+    const info = getPlatformInfo()
+
+    expect(info.arch).toBe('armv7')
+    expect(info.target).toBe('linux-armv7')
+    expect(getToolArch(info)).toBe('armv7')
+  })
+
+  it('should detect Windows on ARM when Node runs under x64 emulation', () => {
+    setPlatform('win32', 'x64')
+    process.env.PROCESSOR_ARCHITECTURE = 'AMD64'
+    process.env.PROCESSOR_ARCHITEW6432 = 'ARM64'
+
+    expect(getPlatformInfo()).toEqual({
+      platform: 'win32',
+      arch: 'arm64',
+      target: 'win32-arm64',
+      ext: '.zip',
+      binaryName: 'nucel.exe',
+    })
+  })
+
+  it('should list the supported targets for an unsupported platform', () => {
+    setPlatform('linux', 'arm')
+    setGlibcVersion('2.31')
+    setArmVersion('6')
+
+    expect(() => getPlatformInfo()).toThrow(
+      `Nucel CLI is not available for linux-armv6. Supported targets: ${getSupportedTargets().join(', ')}`,
+    )
+  })
+
+  it('should reject musl on ARMv7', () => {
+    setPlatform('linux', 'arm')
+    setGlibcVersion(undefined)
+    setArmVersion('7')
+    vi.mocked(fs.readdirSync).mockReturnValue(['ld-musl-armhf.so.1'] as any)
+
+    expect(() => getPlatformInfo()).toThrow('Nucel CLI is not available for linux-armv7-musl')
+  })
+
+  it('should reject unsupported operating systems', () => {
+    setPlatform('freebsd', 'x64')
+
+    expect(() => getPlatformInfo()).toThrow(/^Nucel CLI is not available for freebsd-x64\. Supported targets: linux-x64, /)
+  })
+})
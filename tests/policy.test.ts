@@ -0,0 +1,161 @@
+import { expect, it, describe, vi, afterEach } from 'vitest'
+import {
+  VERSION_POLICY_ASSET,
+  VersionPolicy,
+  enforceVersionPolicy,
+  fetchVersionPolicy,
+  findPolicyViolations,
+  getUpgradeTarget,
+} from '../src/policy.js'
+import type { Release } from '../src/releases.js'
+import * as core from '@actions/core'
+
+vi.mock('@actions/core')
+
+const release = (version: string, assets: string[] = []): Release => ({
+  version,
+  tag: `cli-v${version}`,
+  prerelease: version.includes('-'),
+  assets: assets.map((name) => ({ name, url: `https://mirror.example.com/cli-v${version}/${name}` })),
+  headers: { Authorization: 'Bearer mirror-token' },
+})
+
+const releases = [release('2.0.0-beta.2'), release('1.6.2'), release('1.6.0'), release('1.5.0'), release('1.3.0')]
+
+const policy: VersionPolicy = {
+  minVersion: '1.2.0',
+  versions: [
+    { range: '<1.4.1', status: 'vulnerable', reason: 'CVE-2026-0142', upgradeTo: '1.4.1' },
+    { range: '1.5.x', status: 'deprecated', reason: 'end of life on 2026-12-31' },
+  ],
+}
+
+describe('findPolicyViolations', () => {
+  it('should allow versions that pass every rule', () => {
+    expect(findPolicyViolations('1.6.2', { minVersion: '1.4.0', denyVersions: ['1.6.0'], releasePolicy: policy })).toEqual([])
+  })
+
+  it('should reject versions below min-version or matched by deny-versions', () => {
+    expect(findPolicyViolations('1.3.0', { minVersion: '1.4.0', denyVersions: ['1.3.x'] })).toEqual([
+      { message: 'it is older than min-version 1.4.0', level: 'error' },
+      { message: 'it is denied by deny-versions (1.3.x)', level: 'error' },
+    ])
+  })
+
+  it('should match prereleases against ranges', () => {
+    expect(findPolicyViolations('1.3.0-beta.1', { denyVersions: ['<1.4'] })).toHaveLength(1)
+  })
+
+  it('should warn on deprecated versions and reject vulnerable and unsupported ones', () => {
+    expect(findPolicyViolations('1.5.0', { denyVersions: [], releasePolicy: policy })).toEqual([
+      { message: 'it is deprecated (end of life on 2026-12-31)', level: 'warning', upgradeTo: undefined },
+    ])
+    expect(findPolicyViolations('1.1.0', { denyVersions: [], releasePolicy: policy })).toEqual([
+      { message: 'the Nucel platform no longer supports versions older than 1.2.0', level: 'error' },
+      { message: 'it is vulnerable (CVE-2026-0142)', level: 'error', upgradeTo: '1.4.1' },
+    ])
+  })
+})
+
+describe('getUpgradeTarget', () => {
+  it('should pick the newest allowed release in the same channel', () => {
+    expect(getUpgradeTarget('1.3.0', releases, { denyVersions: ['1.6.2'] })).toBe('1.6.0')
+    expect(getUpgradeTarget('2.0.0-beta.1', releases, { denyVersions: [] })).toBe('2.0.0-beta.2')
+  })
+
+  it('should return null when every release is ruled out', () => {
+    expect(getUpgradeTarget('1.3.0', releases, { minVersion: '3.0.0', denyVersions: [] })).toBeNull()
+  })
+})
+
+describe('fetchVersionPolicy', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it('should download the policy from the newest stable release that has it', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(new Response(JSON.stringify(policy)))
+    vi.stubGlobal('fetch', fetchMock)
+
+    const result = await fetchVersionPolicy([
+      release('2.0.0-beta.2', [VERSION_POLICY_ASSET]),
+      release('1.6.2'),
+      release('1.6.0', [VERSION_POLICY_ASSET]),
+      release('1.5.0', [VERSION_POLICY_ASSET]),
+    ])
+
+    expect(result).toEqual(policy)
+    expect(fetchMock).toHaveBeenCalledWith(`https://mirror.example.com/cli-v1.6.0/${VERSION_POLICY_ASSET}`, {
+      headers: { Authorization: 'Bearer mirror-token' },
+    })
+  })
+
+  it('should return null when no release publishes a policy', async () => {
+    expect(await fetchVersionPolicy(releases)).toBeNull()
+    expect(core.info).toHaveBeenCalledWith(`No Nucel CLI release publishes ${VERSION_POLICY_ASSET}`)
+  })
+
+  it('should reject a policy it cannot read', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue(new Response('{"versions": {}}')))
+
+    await expect(fetchVersionPolicy([release('1.6.0', [VERSION_POLICY_ASSET])])).rejects.toThrow(
+      `Invalid ${VERSION_POLICY_ASSET} in cli-v1.6.0`,
+    )
+  })
+})
+
+describe('enforceVersionPolicy', () => {
+  const annotation = { title: 'Nucel CLI version policy' }
+
+  it('should annotate the upgrade target and fail', async () => {
+    const listReleases = vi.fn().mockResolvedValue(releases)
+
+    await expect(enforceVersionPolicy(['1.3.0'], { minVersion: '1.4.0', denyVersions: [] }, listReleases)).rejects.toThrow(
+      'Nucel CLI 1.3.0 is not allowed by the version policy, see the annotations',
+    )
+    expect(core.error).toHaveBeenCalledWith(
+      'Nucel CLI 1.3.0 is not allowed: it is older than min-version 1.4.0. Upgrade to 1.6.2.',
+      annotation,
+    )
+  })
+
+  it('should only warn on deprecated versions, with the upgrade target from the policy when it has one', async () => {
+    const listReleases = vi.fn().mockResolvedValue(releases)
+
+    await enforceVersionPolicy(['1.5.0'], { denyVersions: [], releasePolicy: policy }, listReleases)
+
+    expect(core.warning).toHaveBeenCalledWith(
+      'Nucel CLI 1.5.0 is not recommended: it is deprecated (end of life on 2026-12-31). Upgrade to 1.6.2.',
+      annotation,
+    )
+    expect(core.error).not.toHaveBeenCalled()
+
+    vi.mocked(core.error).mockClear()
+    listReleases.mockClear()
+    await expect(enforceVersionPolicy(['1.3.0'], { denyVersions: [], releasePolicy: policy }, listReleases)).rejects.toThrow()
+    expect(core.error).toHaveBeenCalledWith(
+      'Nucel CLI 1.3.0 is not allowed: it is vulnerable (CVE-2026-0142). Upgrade to 1.4.1.',
+      annotation,
+    )
+    expect(listReleases).not.toHaveBeenCalled()
+  })
+
+  it('should not list releases for allowed versions', async () => {
+    const listReleases = vi.fn()
+
+    await enforceVersionPolicy(['1.6.2'], { minVersion: '1.4.0', denyVersions: ['1.5.x'] }, listReleases)
+
+    expect(listReleases).not.toHaveBeenCalled()
+    expect(core.error).not.toHaveBeenCalled()
+  })
+
+  it('should still fail when the upgrade target cannot be looked up', async () => {
+    const listReleases = vi.fn().mockRejectedValue(new Error('403 rate limit exceeded'))
+
+    await expect(enforceVersionPolicy(['1.0.0', '1.3.0'], { denyVersions: ['<1.4'] }, listReleases)).rejects.toThrow(
+      'Nucel CLI 1.0.0, 1.3.0 are not allowed by the version policy',
+    )
+    expect(core.error).toHaveBeenCalledWith('Nucel CLI 1.0.0 is not allowed: it is denied by deny-versions (<1.4).', annotation)
+    expect(core.warning).toHaveBeenCalledWith('Could not look up a Nucel CLI version to upgrade to: Error: 403 rate limit exceeded')
+  })
+})
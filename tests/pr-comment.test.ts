@@ -0,0 +1,152 @@
+import { expect, it, describe, vi, beforeAll, afterAll, beforeEach, afterEach } from 'vitest'
+import { COMMENT_MARKER, PreviewComment, renderComment, upsertPullRequestComment } from '../src/pr-comment.js'
+import type { Context } from '../src/github.js'
+import * as core from '@actions/core'
+import * as http from 'http'
+import * as net from 'net'
+
+vi.mock('@actions/core')
+
+type IssueComment = { id: number; body: string }
+
+const comment: PreviewComment = {
+  status: 'success',
+  deploymentUrl: 'https://web-ec26c3e.nucel.app',
+  commitSha: 'ec26c3e57ca3a959ca5aad62de7213c562f8c821',
+  cliVersion: '1.3.0',
+  runUrl: 'https://github.com/nucel-cloud/web/actions/runs/9876543210',
+}
+
+const pullRequestContext: Context = {
+  eventName: 'pull_request',
+  repo: { owner: 'nucel-cloud', repo: 'web' },
+  sha: '3c6a4d1b0e8f7a2c9d5b6e4f1a0c8d7b2e9f6a35',
+  ref: 'refs/pull/42/merge',
+  actor: 'octocat',
+  runUrl: comment.runUrl,
+  payload: { number: 42, pull_request: { number: 42, head: { ref: 'feature/previews', sha: comment.commitSha } } },
+}
+
+// In-memory stand-in for the issue comments endpoints of the GitHub REST API
+describe('pull request comment', () => {
+  let server: http.Server
+  let comments: IssueComment[]
+  let requests: { method: string; url: string; authorization?: string; body?: { body: string } }[]
+
+  beforeAll(async () => {
+    server = http.createServer(async (req, res) => {
+      let data = ''
+      for await (const chunk of req) {
+        data += chunk
+      }
+      const body = data ? JSON.parse(data) : undefined
+      const url = new URL(req.url ?? '', 'http://localhost')
+      requests.push({ method: req.method ?? '', url: url.pathname + url.search, authorization: req.headers.authorization, body })
+
+      const reply = (status: number, payload?: unknown) =>
+        res.writeHead(status, { 'Content-Type': 'application/json' }).end(JSON.stringify(payload ?? {}))
+
+      if (req.headers.authorization !== 'Bearer ghs_test') {
+        return reply(401, { message: 'Bad credentials' })
+      }
+      if (req.method === 'GET' && url.pathname === '/repos/nucel-cloud/web/issues/42/comments') {
+        const perPage = Number(url.searchParams.get('per_page'))
+        const page = Number(url.searchParams.get('page'))
+        return reply(200, comments.slice((page - 1) * perPage, page * perPage))
+      }
+      if (req.method === 'POST' && url.pathname === '/repos/nucel-cloud/web/issues/42/comments') {
+        const created = { id: comments.length + 1, body: body.body }
+        comments.push(created)
+        return reply(201, created)
+      }
+      const match = /^\/repos\/nucel-cloud\/web\/issues\/comments\/(\d+)$/.exec(url.pathname)
+      if (req.method === 'PATCH' && match) {
+        const existing = comments.find((item) => item.id === Number(match[1]))
+        if (!existing) {
+          return reply(404, { message: 'Not Found' })
+        }
+        existing.body = body.body
+        return reply(200, existing)
+      }
+      reply(404, { message: 'Not Found' })
+    })
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve))
+    process.env.GITHUB_API_URL = `http://127.0.0.1:${(server.address() as net.AddressInfo).port}`
+  })
+
+  afterAll(async () => {
+    delete process.env.GITHUB_API_URL
+    await new Promise((resolve) => server.close(resolve))
+  })
+
+  beforeEach(() => {
+    comments = []
+    requests = []
+  })
+
+  afterEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('should create the comment on the first run', async () => {
+    comments.push({ id: 1, body: 'Looks good to me' })
+
+    await upsertPullRequestComment(pullRequestContext, 'ghs_test', comment)
+
+    expect(comments).toHaveLength(2)
+    expect(comments[1].body).toBe(renderComment(comment))
+    expect(requests.map(({ method, url }) => `${method} ${url}`)).toEqual([
+      'GET /repos/nucel-cloud/web/issues/42/comments?per_page=100&page=1',
+      'POST /repos/nucel-cloud/web/issues/42/comments',
+    ])
+    expect(core.info).toHaveBeenCalledWith('Added a preview comment to pull request #42')
+  })
+
+  it('should update the marked comment on later runs', async () => {
+    await upsertPullRequestComment(pullRequestContext, 'ghs_test', comment)
+    const failed: PreviewComment = { ...comment, status: 'failure', deploymentUrl: undefined }
+
+    await upsertPullRequestComment(pullRequestContext, 'ghs_test', failed)
+
+    expect(comments).toHaveLength(1)
+    expect(comments[0].body).toBe(renderComment(failed))
+    expect(requests.at(-1)).toMatchObject({ method: 'PATCH', url: '/repos/nucel-cloud/web/issues/comments/1' })
+  })
+
+  it('should find the marked comment past the first page', async () => {
+    for (let id = 1; id <= 150; id++) {
+      comments.push({ id, body: `Comment ${id}` })
+    }
+    comments[119].body = `${COMMENT_MARKER}\nOld preview`
+
+    await upsertPullRequestComment(pullRequestContext, 'ghs_test', comment)
+
+    expect(comments).toHaveLength(150)
+    expect(comments[119].body).toBe(renderComment(comment))
+    expect(requests.filter(({ method }) => method === 'GET')).toHaveLength(2)
+  })
+
+  it('should skip events without a pull request', async () => {
+    await upsertPullRequestComment({ ...pullRequestContext, eventName: 'push', payload: {} }, 'ghs_test', comment)
+
+    expect(requests).toHaveLength(0)
+    expect(core.info).toHaveBeenCalledWith('Not a pull request event, skipping the pull request comment')
+  })
+
+  it('should report API errors', async () => {
+    await expect(upsertPullRequestComment(pullRequestContext, 'bad-token', comment)).rejects.toThrow(
+      /^GitHub API request GET http:\/\/127\.0\.0\.1:\d+\/repos\/nucel-cloud\/web\/issues\/42\/comments\?per_page=100&page=1 failed: 401 Unauthorized$/,
+    )
+  })
+
+  it('should render the deployment details', () => {
+    const body = renderComment(comment)
+
+    expect(body.startsWith(COMMENT_MARKER)).toBe(true)
+    expect(body).toContain('| **Status** | ✅ Ready |')
+    expect(body).toContain('| **Preview** | [https://web-ec26c3e.nucel.app](https://web-ec26c3e.nucel.app) |')
+    expect(body).toContain('| **Commit** | `ec26c3e57ca3a959ca5aad62de7213c562f8c821` |')
+    expect(body).toContain('| **Nucel CLI** | `1.3.0` |')
+    expect(renderComment({ ...comment, status: 'failure', deploymentUrl: undefined })).toContain('| **Preview** | - |')
+  })
+})
@@ -0,0 +1,146 @@
+import { expect, it, describe, vi, beforeEach, afterEach } from 'vitest'
+import { addProblemMatcher, getMatcherOwners, removeProblemMatcher } from '../src/problem-matcher.js'
+import matcherJSON from '../src/nucel-matcher.json' with { type: 'json' }
+import * as core from '@actions/core'
+import * as fs from 'fs/promises'
+import * as os from 'os'
+import * as path from 'path'
+
+vi.mock('@actions/core')
+
+type Pattern = { regexp: string } & Partial<Record<'file' | 'line' | 'column' | 'severity' | 'code' | 'message', number>>
+
+// Applies a matcher the way the runner does: each pattern must match the next consecutive line
+const match = (owner: string, lines: string[]) => {
+  const { pattern } = matcherJSON.problemMatcher.find((matcher) => matcher.owner === owner)!
+  for (let start = 0; start + pattern.length <= lines.length; start++) {
+    const result: Record<string, string | undefined> = {}
+    const matched = (pattern as Pattern[]).every((p, i) => {
+      const groups = new RegExp(p.regexp).exec(lines[start + i])
+      if (!groups) {
+        return false
+      }
+      for (const key of ['file', 'line', 'column', 'severity', 'code', 'message'] as const) {
+        if (p[key] !== undefined) {
+          result[key] = groups[p[key]]
+        }
+      }
+      return true
+    })
+    if (matched) {
+      return result
+    }
+  }
+  return null
+}
+
+describe('problem matcher', () => {
+  describe('single-line format', () => {
+    it('should match errors with a location and code', () => {
+      expect(match('nucel', ['nucel.config.json:3:14 - error NC1001: Unknown key "regin"'])).toEqual({
+        file: 'nucel.config.json',
+        line: '3',
+        column: '14',
+        severity: 'error',
+        code: 'NC1001',
+        message: 'Unknown key "regin"',
+      })
+    })
+
+    it('should match warnings in nested paths', () => {
+      expect(match('nucel', ['apps/web/src/routes/index.ts:120:1 - warning NC2010: Route is shadowed by /index'])).toMatchObject({
+        file: 'apps/web/src/routes/index.ts',
+        line: '120',
+        severity: 'warning',
+        message: 'Route is shadowed by /index',
+      })
+    })
+
+    it('should match colored output', () => {
+      expect(match('nucel', ['\x1b[1m\x1b[31mnucel.config.json:3:14 - error NC1001: Unknown key "regin"\x1b[0m'])).toMatchObject({
+        file: 'nucel.config.json',
+        message: 'Unknown key "regin"',
+      })
+    })
+
+    it.each([
+      'Deploying to production...',
+      'Build completed in 3.2s',
+      'error: deployment failed',
+      'Serving on http://localhost:3000 - error pages are enabled',
+    ])('should not match %j', (line) => {
+      expect(match('nucel', [line])).toBeNull()
+    })
+  })
+
+  describe('block format', () => {
+    it('should match an error followed by its location', () => {
+      const output = ['Building functions...', 'error[NC3002]: Handler "default" is not exported', '  --> api/hello.ts:7:1', '']
+
+      expect(match('nucel-block', output)).toEqual({
+        severity: 'error',
+        code: 'NC3002',
+        message: 'Handler "default" is not exported',
+        file: 'api/hello.ts',
+        line: '7',
+        column: '1',
+      })
+    })
+
+    it('should match warnings without a code or column', () => {
+      expect(match('nucel-block', ['warning: Function exceeds the recommended bundle size', '   --> api/handler.ts:12'])).toEqual({
+        severity: 'warning',
+        code: undefined,
+        message: 'Function exceeds the recommended bundle size',
+        file: 'api/handler.ts',
+        line: '12',
+        column: undefined,
+      })
+    })
+
+    it('should not match an error without a location', () => {
+      expect(match('nucel-block', ['error: deployment failed', 'Exiting with code 1'])).toBeNull()
+    })
+  })
+
+  describe('registration', () => {
+    let tempDir: string
+
+    beforeEach(async () => {
+      tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'setup-nucel-matcher-'))
+      process.env.RUNNER_TEMP = tempDir
+    })
+
+    afterEach(async () => {
+      delete process.env.RUNNER_TEMP
+      await fs.rm(tempDir, { recursive: true, force: true })
+    })
+
+    it('should write the matcher file and register it', async () => {
+      await addProblemMatcher(tempDir)
+
+      const matcherPath = path.join(tempDir, 'nucel-problem-matcher.json')
+      expect(JSON.parse(await fs.readFile(matcherPath, 'utf-8'))).toEqual(matcherJSON)
+      expect(core.info).toHaveBeenCalledWith(`::add-matcher::${matcherPath}`)
+      expect(core.saveState).toHaveBeenCalledWith('problemMatcher', 'true')
+    })
+
+    it('should remove every matcher it registered', () => {
+      vi.mocked(core.getState).mockReturnValue('true')
+
+      removeProblemMatcher()
+
+      expect(getMatcherOwners()).toEqual(['nucel', 'nucel-block'])
+      expect(core.info).toHaveBeenCalledWith('::remove-matcher owner=nucel::')
+      expect(core.info).toHaveBeenCalledWith('::remove-matcher owner=nucel-block::')
+    })
+
+    it('should not remove matchers when none were registered', () => {
+      vi.mocked(core.getState).mockReturnValue('')
+
+      removeProblemMatcher()
+
+      expect(core.info).not.toHaveBeenCalled()
+    })
+  })
+})
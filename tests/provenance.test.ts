@@ -0,0 +1,120 @@
+import { expect, it, describe, vi, beforeEach, afterEach } from 'vitest'
+import { verifyProvenance } from '../src/provenance.js'
+import type { Release } from '../src/releases.js'
+import { Verifier, toSignedEntity } from '@sigstore/verify'
+import * as fs from 'fs/promises'
+import * as crypto from 'crypto'
+
+vi.mock('@actions/core')
+vi.mock('@sigstore/verify')
+vi.mock('fs/promises')
+
+const assetName = 'nucel-cli-linux-x64.tar.gz'
+const artifact = Buffer.from('nucel archive')
+const artifactSha256 = crypto.createHash('sha256').update(artifact).digest('hex')
+
+const release: Release = {
+  version: '1.3.0',
+  tag: 'cli-v1.3.0',
+  prerelease: false,
+  assets: [
+    { name: assetName, url: `https://example.com/${assetName}` },
+    { name: `${assetName}.sigstore.json`, url: `https://example.com/${assetName}.sigstore.json` },
+  ],
+}
+
+const verificationMaterial = {
+  certificate: { rawBytes: Buffer.from('cert').toString('base64') },
+  tlogEntries: [],
+}
+
+const messageSignatureBundle = {
+  mediaType: 'application/vnd.dev.sigstore.bundle.v0.3+json',
+  verificationMaterial,
+  messageSignature: {
+    messageDigest: { algorithm: 'SHA2_256', digest: Buffer.from(artifactSha256, 'hex').toString('base64') },
+    signature: Buffer.from('signature').toString('base64'),
+  },
+}
+
+const dsseBundle = (subjectDigest: string) => ({
+  mediaType: 'application/vnd.dev.sigstore.bundle.v0.3+json',
+  verificationMaterial,
+  dsseEnvelope: {
+    payloadType: 'application/vnd.in-toto+json',
+    payload: Buffer.from(
+      JSON.stringify({ subject: [{ name: assetName, digest: { sha256: subjectDigest } }] }),
+    ).toString('base64'),
+    signatures: [{ sig: Buffer.from('signature').toString('base64'), keyid: '' }],
+  },
+})
+
+const stubBundle = (bundle: unknown) => vi.stubGlobal('fetch', vi.fn().mockResolvedValue(new Response(JSON.stringify(bundle))))
+
+describe('verifyProvenance', () => {
+  beforeEach(() => {
+    vi.mocked(fs.readFile).mockResolvedValue(artifact as any)
+    vi.mocked(Verifier.prototype.verify).mockReturnValue({
+      key: {} as any,
+      identity: { subjectAlternativeName: 'https://github.com/nucel-cloud/nucel/.github/workflows/release.yml@refs/tags/cli-v1.3.0' },
+    })
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it('should verify a message signature bundle against the release workflow identity', async () => {
+    stubBundle(messageSignatureBundle)
+
+    await verifyProvenance('/tmp/archive', assetName, release)
+
+    expect(toSignedEntity).toHaveBeenCalledWith(expect.anything(), artifact)
+    const policy = vi.mocked(Verifier.prototype.verify).mock.calls[0][1]
+    expect(policy?.extensions).toEqual({ issuer: 'https://token.actions.githubusercontent.com' })
+    expect(policy?.subjectAlternativeName).toBeInstanceOf(RegExp)
+    expect(
+      (policy?.subjectAlternativeName as RegExp).test(
+        'https://github.com/nucel-cloud/nucel/.github/workflows/release.yml@refs/tags/cli-v1.3.0',
+      ),
+    ).toBe(true)
+    expect(
+      (policy?.subjectAlternativeName as RegExp).test('https://github.com/attacker/nucel/.github/workflows/release.yml@refs/tags/v1'),
+    ).toBe(false)
+  })
+
+  it('should verify an attestation covering the archive digest', async () => {
+    stubBundle(dsseBundle(artifactSha256))
+
+    await verifyProvenance('/tmp/archive', assetName, release)
+
+    expect(toSignedEntity).toHaveBeenCalledWith(expect.anything(), undefined)
+    expect(Verifier.prototype.verify).toHaveBeenCalled()
+  })
+
+  it('should reject an attestation for another artifact', async () => {
+    stubBundle(dsseBundle('0'.repeat(64)))
+
+    await expect(verifyProvenance('/tmp/archive', assetName, release)).rejects.toThrow(
+      `Provenance attestation does not cover an artifact with sha256:${artifactSha256}`,
+    )
+    expect(Verifier.prototype.verify).not.toHaveBeenCalled()
+  })
+
+  it('should report signature verification failures', async () => {
+    stubBundle(messageSignatureBundle)
+    vi.mocked(Verifier.prototype.verify).mockImplementation(() => {
+      throw new Error('certificate identity mismatch')
+    })
+
+    await expect(verifyProvenance('/tmp/archive', assetName, release)).rejects.toThrow(
+      `Provenance verification failed for ${assetName}: Error: certificate identity mismatch`,
+    )
+  })
+
+  it('should fail when the release has no bundle', async () => {
+    await expect(
+      verifyProvenance('/tmp/archive', assetName, { ...release, assets: release.assets.slice(0, 1) }),
+    ).rejects.toThrow(`No provenance bundle for ${assetName} in release cli-v1.3.0`)
+  })
+})
@@ -0,0 +1,217 @@
+import { expect, it, describe, vi, afterEach } from 'vitest'
+import {
+  getBuild,
+  getChannel,
+  getVersionRange,
+  isValidVersionSpec,
+  parseVersionList,
+  parseReleaseTag,
+  parseVersionOutput,
+  resolveRelease,
+} from '../src/releases.js'
+
+vi.mock('@actions/core')
+
+const githubRelease = (tag: string, assetNames: string[], prerelease = false) => ({
+  tag_name: tag,
+  draft: false,
+  prerelease,
+  assets: assetNames.map((name) => ({ name, browser_download_url: `https://example.com/${tag}/${name}` })),
+})
+
+const linuxAsset = 'nucel-cli-linux-x64.tar.gz'
+const linuxAssetName = () => linuxAsset
+
+const stubReleases = (releases: unknown[]) => {
+  const fetchMock = vi.fn().mockImplementation(async () => new Response(JSON.stringify(releases)))
+  vi.stubGlobal('fetch', fetchMock)
+  return fetchMock
+}
+
+describe('releases', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  describe('isValidVersionSpec', () => {
+    it.each(['latest', 'stable', 'beta', 'canary', 'nightly', '1.2.3', '1.2.3-beta.1', '^1.2', '1.x', '>=1.4 <2'])('should accept %s', (spec) => {
+      expect(isValidVersionSpec(spec)).toBe(true)
+    })
+
+    it.each(['not-a-version', 'invalid'])('should reject %s', (spec) => {
+      expect(isValidVersionSpec(spec)).toBe(false)
+    })
+  })
+
+  describe('parseVersionList', () => {
+    it('should split versions on commas and newlines', () => {
+      expect(parseVersionList('1.4.2, 2.0.0-beta.3')).toEqual(['1.4.2', '2.0.0-beta.3'])
+      expect(parseVersionList('1.4.2\n^2\n')).toEqual(['1.4.2', '^2'])
+    })
+
+    it('should keep a single version and ranges with spaces as they are', () => {
+      expect(parseVersionList('>=1.4 <2')).toEqual(['>=1.4 <2'])
+    })
+  })
+
+  describe('parseReleaseTag', () => {
+    it('should parse cli-prefixed and plain tags', () => {
+      expect(parseReleaseTag('cli-v1.2.3')).toBe('1.2.3')
+      expect(parseReleaseTag('v0.1.9')).toBe('0.1.9')
+      expect(parseReleaseTag('sdk-v1.0.0')).toBeNull()
+      expect(parseReleaseTag('nightly')).toBeNull()
+    })
+  })
+
+  describe('parseVersionOutput', () => {
+    it.each([
+      ['nucel 1.2.3', '1.2.3'],
+      ['nucel-cli v1.2.3 (abc1234, built 2024-05-01)', '1.2.3'],
+      ['Nucel CLI version 2.0.0-beta.1+build.5\n', '2.0.0-beta.1'],
+      ['{"version":"1.4.0","commit":"abc1234"}', '1.4.0'],
+    ])('should parse %j', (output, version) => {
+      expect(parseVersionOutput(output)).toBe(version)
+    })
+
+    it.each(['nucel dev', '', 'build 20240501'])('should return null for %j', (output) => {
+      expect(parseVersionOutput(output)).toBeNull()
+    })
+  })
+
+  describe('channels', () => {
+    it('should map specs to ranges', () => {
+      expect(getVersionRange('latest')).toBe('*')
+      expect(getVersionRange('stable')).toBe('*')
+      expect(getVersionRange('^1.2')).toBe('^1.2')
+      expect(getVersionRange('canary')).toBeNull()
+    })
+
+    it.each([
+      ['1.2.3', 'stable', ''],
+      ['2.0.0-beta.3', 'beta', '3'],
+      ['2.1.0-canary.20241019.2', 'canary', '20241019.2'],
+      ['2.1.0-nightly.20241019', 'nightly', '20241019'],
+      ['2.0.0-rc.1', 'rc', '1'],
+    ])('should read the channel and build of %s', (version, channel, build) => {
+      expect(getChannel(version)).toBe(channel)
+      expect(getBuild(version)).toBe(build)
+    })
+  })
+
+  describe('resolveRelease', () => {
+    it('should resolve latest to the highest stable release', async () => {
+      stubReleases([
+        githubRelease('cli-v2.0.0-beta.1', [linuxAsset], true),
+        githubRelease('cli-v1.10.0', [linuxAsset]),
+        githubRelease('cli-v1.9.0', [linuxAsset]),
+      ])
+
+      const release = await resolveRelease('latest', linuxAssetName)
+
+      expect(release.version).toBe('1.10.0')
+      expect(release.assets[0].url).toBe(`https://example.com/cli-v1.10.0/${linuxAsset}`)
+    })
+
+    it('should resolve ranges', async () => {
+      stubReleases([
+        githubRelease('cli-v2.1.0', [linuxAsset]),
+        githubRelease('cli-v1.5.0', [linuxAsset]),
+        githubRelease('cli-v1.4.0', [linuxAsset]),
+        githubRelease('cli-v1.2.0', [linuxAsset]),
+      ])
+
+      expect((await resolveRelease('^1.2', linuxAssetName)).version).toBe('1.5.0')
+      expect((await resolveRelease('>=1.4 <1.5', linuxAssetName)).version).toBe('1.4.0')
+      expect((await resolveRelease('2.x', linuxAssetName)).version).toBe('2.1.0')
+    })
+
+    it('should resolve exact prerelease versions', async () => {
+      stubReleases([githubRelease('cli-v2.0.0-beta.1', [linuxAsset], true), githubRelease('cli-v1.0.0', [linuxAsset])])
+
+      expect((await resolveRelease('2.0.0-beta.1', linuxAssetName)).version).toBe('2.0.0-beta.1')
+    })
+
+    it('should resolve channels to their newest build', async () => {
+      stubReleases([
+        githubRelease('cli-v2.1.0-canary.20241019.1', [linuxAsset], true),
+        githubRelease('cli-v2.1.0-canary.20241019.2', [linuxAsset], true),
+        githubRelease('cli-v2.1.0-canary.20241018.7', [linuxAsset], true),
+        githubRelease('cli-v2.1.0-nightly.20241019', [linuxAsset], true),
+        githubRelease('cli-v2.0.0-beta.10', [linuxAsset], true),
+        githubRelease('cli-v2.0.0-beta.9', [linuxAsset], true),
+        githubRelease('cli-v2.0.0-rc.1', [linuxAsset], true),
+        githubRelease('cli-v1.9.0', [linuxAsset]),
+      ])
+
+      expect((await resolveRelease('canary', linuxAssetName)).version).toBe('2.1.0-canary.20241019.2')
+      expect((await resolveRelease('nightly', linuxAssetName)).version).toBe('2.1.0-nightly.20241019')
+      expect((await resolveRelease('beta', linuxAssetName)).version).toBe('2.0.0-beta.10')
+      expect((await resolveRelease('stable', linuxAssetName)).version).toBe('1.9.0')
+    })
+
+    it('should fail for a channel without builds', async () => {
+      stubReleases([githubRelease('cli-v1.9.0', [linuxAsset])])
+
+      await expect(resolveRelease('nightly', linuxAssetName)).rejects.toThrow('No Nucel CLI release matching "nightly"')
+    })
+
+    it('should skip releases without an asset for the platform', async () => {
+      stubReleases([
+        githubRelease('cli-v1.1.0', ['nucel-cli-darwin-arm64.tar.gz']),
+        githubRelease('cli-v1.0.0', [linuxAsset]),
+      ])
+
+      expect((await resolveRelease('latest', linuxAssetName)).version).toBe('1.0.0')
+    })
+
+    it('should fail when nothing matches', async () => {
+      stubReleases([githubRelease('cli-v1.0.0', [linuxAsset])])
+
+      await expect(resolveRelease('^3', linuxAssetName)).rejects.toThrow('No Nucel CLI release matching "^3"')
+    })
+
+    it('should send the token to the releases API', async () => {
+      const fetchMock = stubReleases([githubRelease('cli-v1.0.0', [linuxAsset])])
+
+      await resolveRelease('latest', linuxAssetName, { token: 'gh-token' })
+
+      expect(fetchMock).toHaveBeenCalledWith(
+        expect.stringContaining('/repos/nucel-cloud/nucel/releases'),
+        expect.objectContaining({ headers: expect.objectContaining({ Authorization: 'Bearer gh-token' }) }),
+      )
+    })
+
+    it('should match asset names that contain the version', async () => {
+      stubReleases([
+        githubRelease('cli-v1.1.0', ['nucel-cli-linux-x64.tar.gz']),
+        githubRelease('cli-v1.0.0', ['nucel-1.0.0-linux-x64.tar.gz']),
+      ])
+
+      const release = await resolveRelease('latest', (version) => `nucel-${version}-linux-x64.tar.gz`)
+
+      expect(release.version).toBe('1.0.0')
+    })
+
+    it('should list releases from a mirror', async () => {
+      const fetchMock = stubReleases([githubRelease('cli-v1.0.0', [linuxAsset])])
+
+      const release = await resolveRelease('latest', linuxAssetName, {
+        baseUrl: 'https://mirror.example.com/nucel',
+        headers: { Authorization: 'Basic abc' },
+        token: 'gh-token',
+      })
+
+      expect(fetchMock).toHaveBeenCalledWith('https://mirror.example.com/nucel/releases.json', {
+        headers: { Authorization: 'Basic abc' },
+      })
+      expect(release.assets[0].url).toBe(`https://mirror.example.com/nucel/cli-v1.0.0/${linuxAsset}`)
+      expect(release.headers).toEqual({ Authorization: 'Basic abc' })
+    })
+
+    it('should report API errors', async () => {
+      vi.stubGlobal('fetch', vi.fn().mockResolvedValue(new Response('rate limited', { status: 403 })))
+
+      await expect(resolveRelease('latest', linuxAssetName)).rejects.toThrow('Failed to list Nucel releases: 403')
+    })
+  })
+})
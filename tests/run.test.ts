@@ -1,24 +1,101 @@
 import { expect, it, describe, vi, beforeEach, afterEach } from 'vitest'
 import { run, cleanup } from '../src/run.js'
 import type { Context } from '../src/github.js'
+import type { InstallRecord } from '../src/install-record.js'
+import { downloadFile } from '../src/http.js'
 import * as core from '@actions/core'
 import * as exec from '@actions/exec'
 import * as cache from '@actions/cache'
+import * as io from '@actions/io'
 import * as tc from '@actions/tool-cache'
 import * as fs from 'fs/promises'
+import * as os from 'os'
 import * as path from 'path'
+import * as crypto from 'crypto'
 
 // Mock all external dependencies
 vi.mock('@actions/core')
 vi.mock('@actions/exec')
 vi.mock('@actions/cache')
+vi.mock('@actions/io')
 vi.mock('@actions/tool-cache')
 vi.mock('fs/promises')
+vi.mock('../src/http.js')
+vi.mock('timers/promises')
+
+const releaseDownloadUrl = 'https://github.com/nucel-cloud/nucel/releases/download'
+
+const githubRelease = (tag: string, prerelease = false) => ({
+  tag_name: tag,
+  draft: false,
+  prerelease,
+  assets: [
+    ...['linux-x64.tar.gz', 'linux-arm64.tar.gz', 'darwin-x64.tar.gz', 'darwin-arm64.tar.gz', 'win32-x64.zip'].map((suffix) => ({
+      name: `nucel-cli-${suffix}`,
+      browser_download_url: `${releaseDownloadUrl}/${tag}/nucel-cli-${suffix}`,
+    })),
+    { name: 'SHA256SUMS', browser_download_url: `${releaseDownloadUrl}/${tag}/SHA256SUMS` },
+  ],
+})
+
+const releaseList = [
+  githubRelease('cli-v2.0.0-beta.1', true),
+  githubRelease('cli-v1.3.0'),
+  githubRelease('cli-v1.2.3'),
+  githubRelease('cli-v1.0.0'),
+  githubRelease('v0.1.9'),
+]
+
+const toolDir = path.join('/toolcache', 'nucel', '1.3.0', 'x64')
+const workDir = path.join('/runner/temp', 'setup-nucel-abc123')
+const archiveContent = Buffer.concat([Buffer.from([0x1f, 0x8b, 0x08, 0x00]), Buffer.from('nucel archive')])
+const zipArchiveContent = Buffer.concat([Buffer.from([0x50, 0x4b, 0x03, 0x04]), Buffer.from('nucel archive')])
+
+let mockedArchiveSha256 = ''
+let mockedInstallRecord: InstallRecord | null = null
+
+// Binaries in the tool cache keep a record of their archive next to them; any other file reads as the content
+const mockReadFile = (content: string | Buffer) => {
+  vi.mocked(fs.readFile).mockImplementation(async (file) => {
+    if (!String(file).endsWith('nucel-install.json')) {
+      return content as any
+    }
+    if (!mockedInstallRecord) {
+      throw Object.assign(new Error('ENOENT'), { code: 'ENOENT' })
+    }
+    return JSON.stringify(mockedInstallRecord) as any
+  })
+}
+
+// The archive is hashed with fs.readFile and sniffed with fs.open
+const mockArchive = (content: Buffer) => {
+  mockedArchiveSha256 = crypto.createHash('sha256').update(content).digest('hex')
+  mockedInstallRecord = { sha256: mockedArchiveSha256, verified: true, provenance: false }
+  mockReadFile(content)
+  vi.mocked(fs.open).mockResolvedValue({
+    read: async (buffer: Buffer, offset: number, length: number) => ({
+      bytesRead: content.copy(buffer, offset, 0, length),
+      buffer,
+    }),
+    close: async () => {},
+  } as any)
+}
+const archiveSha256 = crypto.createHash('sha256').update(archiveContent).digest('hex')
+
+// The releases API, with a SHA256SUMS in every release that matches the mocked archive
+const releaseApi = async (url: string) =>
+  url.endsWith('/SHA256SUMS')
+    ? new Response(githubRelease('').assets.map(({ name }) => `${mockedArchiveSha256}  ${name}`).join('\n'))
+    : new Response(JSON.stringify(releaseList))
 
 describe('Nucel CLI Setup Action', () => {
   const mockContext: Context = {
+    eventName: 'pull_request',
     repo: { owner: 'test-owner', repo: 'test-repo' },
     sha: 'abc123',
+    ref: 'refs/pull/1/merge',
+    actor: 'testuser',
+    runUrl: 'https://github.com/test-owner/test-repo/actions/runs/1',
     payload: {
       action: 'opened',
       number: 1,
@@ -78,6 +155,7 @@ describe('Nucel CLI Setup Action', () => {
 
     // Mock environment variables
     process.env.HOME = '/home/user'
+    process.env.RUNNER_TOOL_CACHE = '/toolcache'
 
     // Mock core functions
     vi.mocked(core.info).mockImplementation(() => {})
@@ -85,10 +163,22 @@ describe('Nucel CLI Setup Action', () => {
     vi.mocked(core.setOutput).mockImplementation(() => {})
     vi.mocked(core.setFailed).mockImplementation(() => {})
     vi.mocked(core.addPath).mockImplementation(() => {})
+    vi.mocked(core.group).mockImplementation((_name, fn) => fn())
+
+    // Mock the GitHub releases API and the extracted archive contents
+    vi.stubGlobal('fetch', vi.fn().mockImplementation(releaseApi))
+    vi.mocked(fs.readdir).mockResolvedValue(['nucel-cli-linux-x64'] as any)
+    mockArchive(archiveContent)
+    vi.mocked(tc.findAllVersions).mockReturnValue([])
+    vi.mocked(fs.mkdtemp).mockResolvedValue(workDir)
   })
 
   afterEach(() => {
     vi.restoreAllMocks()
+    vi.unstubAllGlobals()
+    delete process.env.RUNNER_TEMP
+    delete process.env.GITHUB_WORKSPACE
+    delete process.env.GITHUB_STEP_SUMMARY
   })
 
   describe('run function', () => {
@@ -100,7 +190,7 @@ describe('Nucel CLI Setup Action', () => {
       vi.mocked(cache.saveCache).mockResolvedValue(0)
 
       // Mock successful binary download and extraction
-      vi.mocked(tc.downloadTool).mockResolvedValue('/tmp/downloaded-file.tar.gz')
+      vi.mocked(downloadFile).mockResolvedValue('/tmp/downloaded-file.tar.gz')
       vi.mocked(tc.extractTar).mockResolvedValue('/tmp/extracted')
       vi.mocked(exec.exec).mockResolvedValue(0) // For chmod and verification
       vi.mocked(exec.getExecOutput).mockResolvedValue({
@@ -116,11 +206,12 @@ describe('Nucel CLI Setup Action', () => {
 
       await run(inputs, mockContext)
 
-      expect(tc.downloadTool).toHaveBeenCalledWith('https://github.com/nucel-cloud/nucel/releases/download/cli-v0.1.9/nucel-cli-linux-x64.tar.gz')
-      expect(tc.extractTar).toHaveBeenCalledWith('/tmp/downloaded-file.tar.gz', undefined, 'xz')
+      expect(downloadFile).toHaveBeenCalledWith('https://github.com/nucel-cloud/nucel/releases/download/cli-v1.3.0/nucel-cli-linux-x64.tar.gz', path.join(workDir, '1.3.0', 'nucel-cli-linux-x64.tar.gz'), {})
+      expect(tc.extractTar).toHaveBeenCalledWith('/tmp/downloaded-file.tar.gz', path.join(workDir, '1.3.0', 'extracted'), 'xz')
       expect(core.addPath).toHaveBeenCalled()
       expect(core.setOutput).toHaveBeenCalledWith('cli-version', '1.0.0')
       expect(core.setOutput).toHaveBeenCalledWith('cli-path', expect.stringContaining('nucel'))
+      expect(core.exportVariable).toHaveBeenCalledWith('NUCEL_PR_NUMBER', '1')
     })
 
     it('should install specific version when version is specified', async () => {
@@ -131,7 +222,7 @@ describe('Nucel CLI Setup Action', () => {
       vi.mocked(cache.saveCache).mockResolvedValue(0)
 
       // Mock successful binary download and extraction
-      vi.mocked(tc.downloadTool).mockResolvedValue('/tmp/downloaded-file.tar.gz')
+      vi.mocked(downloadFile).mockResolvedValue('/tmp/downloaded-file.tar.gz')
       vi.mocked(tc.extractTar).mockResolvedValue('/tmp/extracted')
       vi.mocked(exec.exec).mockResolvedValue(0) // For chmod and verification
       vi.mocked(exec.getExecOutput).mockResolvedValue({
@@ -147,8 +238,8 @@ describe('Nucel CLI Setup Action', () => {
 
       await run(inputs, mockContext)
 
-      expect(tc.downloadTool).toHaveBeenCalledWith('https://github.com/nucel-cloud/nucel/releases/download/cli-v1.2.3/nucel-cli-linux-x64.tar.gz')
-      expect(tc.extractTar).toHaveBeenCalledWith('/tmp/downloaded-file.tar.gz', undefined, 'xz')
+      expect(downloadFile).toHaveBeenCalledWith('https://github.com/nucel-cloud/nucel/releases/download/cli-v1.2.3/nucel-cli-linux-x64.tar.gz', path.join(workDir, '1.2.3', 'nucel-cli-linux-x64.tar.gz'), {})
+      expect(tc.extractTar).toHaveBeenCalledWith('/tmp/downloaded-file.tar.gz', path.join(workDir, '1.2.3', 'extracted'), 'xz')
     })
 
     it('should use cache when available and valid', async () => {
@@ -156,14 +247,79 @@ describe('Nucel CLI Setup Action', () => {
 
       // Mock cache hit
       vi.mocked(cache.restoreCache).mockResolvedValue('cache-key')
+      vi.mocked(tc.find).mockReturnValueOnce('').mockReturnValueOnce(toolDir)
       vi.mocked(fs.access).mockResolvedValue()
       vi.mocked(exec.exec).mockResolvedValue(0) // For verification
 
       await run(inputs, mockContext)
 
       expect(cache.restoreCache).toHaveBeenCalled()
-      expect(tc.downloadTool).not.toHaveBeenCalled()
+      expect(downloadFile).not.toHaveBeenCalled()
       expect(core.info).toHaveBeenCalledWith('Nucel CLI restored from cache')
+      expect(core.addPath).toHaveBeenCalledWith(toolDir)
+    })
+
+    it('should reuse a binary from the runner tool cache without downloading', async () => {
+      vi.mocked(tc.find).mockReturnValue(toolDir)
+      vi.mocked(fs.access).mockResolvedValue()
+      vi.mocked(exec.exec).mockResolvedValue(0)
+
+      await run({ version: 'latest' }, mockContext)
+
+      expect(tc.find).toHaveBeenCalledWith('nucel', '1.3.0', 'x64')
+      expect(cache.restoreCache).not.toHaveBeenCalled()
+      expect(downloadFile).not.toHaveBeenCalled()
+      expect(core.addPath).toHaveBeenCalledWith(toolDir)
+      expect(core.setOutput).toHaveBeenCalledWith('cli-path', path.join(toolDir, 'nucel'))
+    })
+
+    it('should place downloaded binaries in the tool cache', async () => {
+      vi.mocked(cache.restoreCache).mockResolvedValue(undefined)
+      vi.mocked(cache.saveCache).mockResolvedValue(0)
+      vi.mocked(downloadFile).mockResolvedValue('/tmp/downloaded-file.tar.gz')
+      vi.mocked(tc.extractTar).mockResolvedValue('/tmp/extracted')
+      vi.mocked(exec.exec).mockResolvedValue(0)
+      vi.mocked(fs.access).mockResolvedValue()
+
+      await run({ version: 'latest' }, mockContext)
+
+      // Written under a temporary name, renamed into place and only then marked complete
+      const tempPath = expect.stringMatching(new RegExp(`^${path.join(toolDir, 'nucel')}\\.[\\w-]+\\.tmp$`))
+      expect(fs.copyFile).toHaveBeenCalledWith(path.join('/tmp/extracted', 'nucel-cli-linux-x64'), tempPath)
+      expect(fs.chmod).toHaveBeenCalledWith(tempPath, 0o755)
+      expect(fs.rename).toHaveBeenCalledWith(tempPath, path.join(toolDir, 'nucel'))
+      expect(fs.writeFile).toHaveBeenCalledWith(`${toolDir}.complete`, '')
+      expect(fs.writeFile).toHaveBeenCalledWith(
+        path.join(toolDir, 'nucel-install.json'),
+        JSON.stringify({ sha256: archiveSha256, verified: true, provenance: false }),
+      )
+      const writeFile = vi.mocked(fs.writeFile).mock
+      const findOrder = (file: string) => writeFile.invocationCallOrder[writeFile.calls.findIndex(([written]) => written === file)]
+      const markerOrder = findOrder(`${toolDir}.complete`)
+      expect(vi.mocked(fs.rename).mock.invocationCallOrder[0]).toBeLessThan(markerOrder)
+      expect(findOrder(path.join(toolDir, 'nucel-install.json'))).toBeLessThan(markerOrder)
+      expect(fs.writeFile).toHaveBeenCalledWith(`${toolDir}.lock`, expect.any(String), { flag: 'wx' })
+      expect(fs.rm).toHaveBeenCalledWith(`${toolDir}.lock`, { force: true })
+      expect(cache.saveCache).toHaveBeenCalledWith(
+        [expect.stringContaining(toolDir), expect.stringContaining(`${toolDir}.complete`)],
+        'nucel-cli-1.3.0-linux-x64',
+      )
+      expect(core.info).toHaveBeenCalledWith('Nucel CLI cached successfully')
+      expect(core.addPath).toHaveBeenCalledWith(toolDir)
+    })
+
+    it('should not report a cache save that failed', async () => {
+      vi.mocked(cache.restoreCache).mockResolvedValue(undefined)
+      vi.mocked(cache.saveCache).mockResolvedValue(-1)
+      vi.mocked(downloadFile).mockResolvedValue('/tmp/downloaded-file.tar.gz')
+      vi.mocked(tc.extractTar).mockResolvedValue('/tmp/extracted')
+      vi.mocked(exec.exec).mockResolvedValue(0)
+      vi.mocked(fs.access).mockResolvedValue()
+
+      await run({ version: 'latest' }, mockContext)
+
+      expect(cache.saveCache).toHaveBeenCalled()
+      expect(core.info).not.toHaveBeenCalledWith('Nucel CLI cached successfully')
     })
 
     it('should handle installation failure', async () => {
@@ -173,9 +329,49 @@ describe('Nucel CLI Setup Action', () => {
       vi.mocked(cache.restoreCache).mockResolvedValue(undefined)
 
       // Mock failed download
-      vi.mocked(tc.downloadTool).mockRejectedValue(new Error('Download failed'))
+      vi.mocked(downloadFile).mockRejectedValue(new Error('Download failed'))
 
       await expect(run(inputs, mockContext)).rejects.toThrow('Failed to install Nucel CLI')
+      expect(fs.rm).toHaveBeenCalledWith(`${toolDir}.lock`, { force: true })
+    })
+
+    it('should remove a partial install before installing again', async () => {
+      vi.mocked(cache.restoreCache).mockResolvedValue(undefined)
+      vi.mocked(downloadFile).mockResolvedValue('/tmp/downloaded-file.tar.gz')
+      vi.mocked(tc.extractTar).mockResolvedValue('/tmp/extracted')
+      vi.mocked(exec.exec).mockResolvedValue(0)
+      // A job died after creating the directory but before writing the completion marker
+      vi.mocked(fs.access).mockImplementation(async (file) => {
+        if (file === `${toolDir}.complete`) {
+          throw Object.assign(new Error('ENOENT'), { code: 'ENOENT' })
+        }
+      })
+
+      await run({ version: 'latest' }, mockContext)
+
+      expect(core.warning).toHaveBeenCalledWith(`Removing incomplete Nucel CLI install: ${toolDir}`)
+      expect(fs.rm).toHaveBeenCalledWith(toolDir, { recursive: true, force: true })
+      expect(fs.rm).not.toHaveBeenCalledWith(`${toolDir}.complete`, expect.anything())
+      expect(vi.mocked(fs.rm).mock.invocationCallOrder[0]).toBeLessThan(vi.mocked(cache.restoreCache).mock.invocationCallOrder[0])
+      expect(fs.rename).toHaveBeenCalledWith(expect.any(String), path.join(toolDir, 'nucel'))
+    })
+
+    it('should use the version another job installed while it waited for the lock', async () => {
+      const lock = JSON.stringify({ pid: process.pid, hostname: os.hostname(), createdAt: new Date().toISOString() })
+      vi.mocked(fs.writeFile).mockRejectedValueOnce(Object.assign(new Error('EEXIST'), { code: 'EEXIST' }))
+      mockReadFile(lock)
+      vi.mocked(fs.stat).mockResolvedValue({ mtimeMs: Date.now() } as any)
+      vi.mocked(tc.find).mockReturnValueOnce('').mockReturnValueOnce(toolDir)
+      vi.mocked(fs.access).mockResolvedValue()
+      vi.mocked(exec.exec).mockResolvedValue(0)
+
+      await run({ version: 'latest' }, mockContext)
+
+      expect(core.info).toHaveBeenCalledWith(expect.stringMatching(`^Waiting for lock ${toolDir}.lock held by process ${process.pid}`))
+      expect(core.info).toHaveBeenCalledWith('Nucel CLI installed to the tool cache by another job')
+      expect(cache.restoreCache).not.toHaveBeenCalled()
+      expect(downloadFile).not.toHaveBeenCalled()
+      expect(core.setOutput).toHaveBeenCalledWith('cli-path', path.join(toolDir, 'nucel'))
     })
 
     it('should handle Windows platform correctly', async () => {
@@ -192,7 +388,8 @@ describe('Nucel CLI Setup Action', () => {
       vi.mocked(cache.saveCache).mockResolvedValue(0)
 
       // Mock successful binary download and extraction for Windows
-      vi.mocked(tc.downloadTool).mockResolvedValue('/tmp/downloaded-file.zip')
+      vi.mocked(downloadFile).mockResolvedValue('/tmp/downloaded-file.zip')
+      mockArchive(zipArchiveContent)
       vi.mocked(tc.extractZip).mockResolvedValue('/tmp/extracted')
       vi.mocked(exec.exec).mockResolvedValue(0) // For verification
       vi.mocked(exec.getExecOutput).mockResolvedValue({
@@ -208,8 +405,8 @@ describe('Nucel CLI Setup Action', () => {
 
       await run(inputs, mockContext)
 
-      expect(tc.downloadTool).toHaveBeenCalledWith('https://github.com/nucel-cloud/nucel/releases/download/cli-v0.1.9/nucel-cli-win32-x64.zip')
-      expect(tc.extractZip).toHaveBeenCalledWith('/tmp/downloaded-file.zip')
+      expect(downloadFile).toHaveBeenCalledWith('https://github.com/nucel-cloud/nucel/releases/download/cli-v1.3.0/nucel-cli-win32-x64.zip', path.join(workDir, '1.3.0', 'nucel-cli-win32-x64.zip'), {})
+      expect(tc.extractZip).toHaveBeenCalledWith('/tmp/downloaded-file.zip', path.join(workDir, '1.3.0', 'extracted'))
       expect(core.info).toHaveBeenCalledWith(expect.stringContaining('win32'))
     })
 
@@ -223,7 +420,7 @@ describe('Nucel CLI Setup Action', () => {
       vi.mocked(cache.saveCache).mockResolvedValue(0)
 
       // Mock successful binary download and extraction
-      vi.mocked(tc.downloadTool).mockResolvedValue('/tmp/downloaded-file.tar.gz')
+      vi.mocked(downloadFile).mockResolvedValue('/tmp/downloaded-file.tar.gz')
       vi.mocked(tc.extractTar).mockResolvedValue('/tmp/extracted')
       vi.mocked(exec.exec).mockResolvedValue(0) // For chmod and verification
       vi.mocked(exec.getExecOutput).mockResolvedValue({
@@ -239,8 +436,130 @@ describe('Nucel CLI Setup Action', () => {
 
       await run(inputs, mockContext)
 
-      expect(tc.downloadTool).toHaveBeenCalledWith('https://github.com/nucel-cloud/nucel/releases/download/cli-v0.1.9/nucel-cli-darwin-x64.tar.gz')
+      expect(downloadFile).toHaveBeenCalledWith('https://github.com/nucel-cloud/nucel/releases/download/cli-v1.3.0/nucel-cli-darwin-x64.tar.gz', path.join(workDir, '1.3.0', 'nucel-cli-darwin-x64.tar.gz'), {})
       expect(core.info).toHaveBeenCalledWith(expect.stringContaining('darwin'))
+      expect(core.setOutput).toHaveBeenCalledWith('platform', 'darwin')
+      expect(core.setOutput).toHaveBeenCalledWith('arch', 'x64')
+      expect(core.setOutput).toHaveBeenCalledWith('libc', '')
+    })
+
+    it('should put the usage shim on PATH ahead of the CLI when track-usage is set', async () => {
+      vi.mocked(tc.find).mockReturnValue(toolDir)
+      vi.mocked(fs.access).mockResolvedValue()
+      vi.mocked(exec.exec).mockResolvedValue(0)
+
+      await run({ version: 'latest', trackUsage: true }, mockContext)
+
+      const shimDir = path.join(workDir, 'shim')
+      expect(fs.writeFile).toHaveBeenCalledWith(
+        path.join(workDir, 'usage-shim.cjs'),
+        expect.stringContaining(JSON.stringify(path.join(toolDir, 'nucel'))),
+      )
+      expect(fs.writeFile).toHaveBeenCalledWith(path.join(shimDir, 'nucel'), expect.stringContaining('usage-shim.cjs'))
+      expect(core.saveState).toHaveBeenCalledWith('usageLog', path.join(workDir, 'usage.jsonl'))
+      expect(core.addPath).toHaveBeenLastCalledWith(shimDir)
+    })
+
+    it('should register the problem matcher unless disabled', async () => {
+      vi.mocked(tc.find).mockReturnValue(toolDir)
+      vi.mocked(fs.access).mockResolvedValue()
+      vi.mocked(exec.exec).mockResolvedValue(0)
+
+      await run({ version: 'latest' }, mockContext)
+
+      const matcherPath = path.join(workDir, 'nucel-problem-matcher.json')
+      expect(fs.writeFile).toHaveBeenCalledWith(matcherPath, expect.stringContaining('"owner":"nucel"'))
+      expect(core.info).toHaveBeenCalledWith(`::add-matcher::${matcherPath}`)
+
+      vi.mocked(core.info).mockClear()
+      await run({ version: 'latest', problemMatcher: false }, mockContext)
+
+      expect(core.info).not.toHaveBeenCalledWith(expect.stringMatching(/^::add-matcher::/))
+    })
+
+    it('should run the command after setting the outputs', async () => {
+      vi.mocked(tc.find).mockReturnValue(toolDir)
+      vi.mocked(fs.access).mockResolvedValue()
+      vi.mocked(exec.exec).mockResolvedValue(0)
+      vi.mocked(exec.getExecOutput).mockResolvedValue({ exitCode: 0, stdout: 'nucel 1.3.0', stderr: '' })
+
+      await run({ version: 'latest', command: 'deploy --prod' }, mockContext)
+
+      expect(exec.getExecOutput).toHaveBeenLastCalledWith(path.join(toolDir, 'nucel'), ['deploy', '--prod'], expect.any(Object))
+      const setOutput = vi.mocked(core.setOutput).mock
+      const cliPathOrder = setOutput.invocationCallOrder[setOutput.calls.findIndex(([name]) => name === 'cli-path')]
+      expect(cliPathOrder).toBeLessThan(vi.mocked(exec.getExecOutput).mock.invocationCallOrder.at(-1)!)
+    })
+
+    it('should fail on an invalid config before running the command', async () => {
+      process.env.GITHUB_WORKSPACE = '/workspace'
+      const schema = { type: 'object', properties: { region: { type: 'string' } }, additionalProperties: false }
+      vi.mocked(tc.find).mockReturnValue(toolDir)
+      vi.mocked(fs.access).mockResolvedValue()
+      mockReadFile('{\n  "regin": "eu-west"\n}\n')
+      vi.mocked(exec.exec).mockResolvedValue(0)
+      vi.mocked(exec.getExecOutput).mockImplementation(async (_command, args) =>
+        args?.[0] === 'config'
+          ? { exitCode: 0, stdout: JSON.stringify(schema), stderr: '' }
+          : { exitCode: 0, stdout: 'nucel 1.3.0', stderr: '' },
+      )
+
+      await expect(
+        run({ version: 'latest', validateConfig: true, workingDirectory: 'web', command: 'deploy' }, mockContext),
+      ).rejects.toThrow('web/nucel.config.json has 1 problem, see the annotations')
+
+      expect(fs.readFile).toHaveBeenCalledWith(path.join('/workspace', 'web', 'nucel.config.json'), 'utf-8')
+      expect(core.error).toHaveBeenCalledWith('Unknown key "regin"', {
+        title: 'Invalid Nucel config',
+        file: 'web/nucel.config.json',
+        startLine: 2,
+        startColumn: 3,
+      })
+      expect(exec.getExecOutput).not.toHaveBeenCalledWith(expect.any(String), ['deploy'], expect.anything())
+    })
+
+    it('should comment on the pull request when the command fails', async () => {
+      vi.mocked(tc.find).mockReturnValue(toolDir)
+      vi.mocked(fs.access).mockResolvedValue()
+      vi.mocked(exec.exec).mockResolvedValue(0)
+      vi.mocked(exec.getExecOutput)
+        .mockResolvedValueOnce({ exitCode: 0, stdout: 'nucel 1.3.0', stderr: '' })
+        .mockResolvedValueOnce({ exitCode: 1, stdout: '', stderr: 'Build failed' })
+      const fetchMock = vi.fn().mockImplementation(async (url: string) =>
+        url.includes('/issues/') ? new Response(JSON.stringify([])) : releaseApi(url),
+      )
+      vi.stubGlobal('fetch', fetchMock)
+
+      await expect(
+        run({ version: 'latest', command: 'deploy', prComment: true, prCommentToken: 'ghs_test' }, mockContext),
+      ).rejects.toThrow('nucel deploy failed with exit code 1')
+
+      const [url, init] = fetchMock.mock.calls.at(-1)!
+      expect(url).toBe('https://api.github.com/repos/test-owner/test-repo/issues/1/comments')
+      expect(init.method).toBe('POST')
+      expect(JSON.parse(init.body).body).toContain('| **Status** | ❌ Failed |')
+    })
+
+    it('should not comment with github-token, which is meant for github.com', async () => {
+      vi.mocked(tc.find).mockReturnValue(toolDir)
+      vi.mocked(fs.access).mockResolvedValue()
+      vi.mocked(exec.exec).mockResolvedValue(0)
+      vi.mocked(exec.getExecOutput).mockResolvedValue({ exitCode: 0, stdout: '{"url":"https://pr-1.nucel.app"}', stderr: '' })
+
+      await run({ version: 'latest', command: 'deploy', prComment: true, githubToken: 'ghp_github_com' }, mockContext)
+
+      expect(core.warning).toHaveBeenCalledWith('pr-comment requires pr-comment-token or GITHUB_TOKEN, skipping the pull request comment')
+      expect(fetch).not.toHaveBeenCalledWith(expect.stringContaining('/issues/'), expect.anything())
+    })
+
+    it('should fail before downloading on an unsupported platform', async () => {
+      Object.defineProperty(process, 'platform', { value: 'freebsd', writable: true })
+
+      await expect(run({ version: 'latest' }, mockContext)).rejects.toThrow(
+        /^Nucel CLI is not available for freebsd-x64\. Supported targets: linux-x64, /,
+      )
+      expect(fetch).not.toHaveBeenCalled()
+      expect(downloadFile).not.toHaveBeenCalled()
     })
 
     it('should handle authentication token', async () => {
@@ -251,7 +570,7 @@ describe('Nucel CLI Setup Action', () => {
       vi.mocked(cache.saveCache).mockResolvedValue(0)
 
       // Mock successful binary download and extraction
-      vi.mocked(tc.downloadTool).mockResolvedValue('/tmp/downloaded-file.tar.gz')
+      vi.mocked(downloadFile).mockResolvedValue('/tmp/downloaded-file.tar.gz')
       vi.mocked(tc.extractTar).mockResolvedValue('/tmp/extracted')
       vi.mocked(exec.exec).mockResolvedValue(0) // For chmod and verification
       vi.mocked(exec.getExecOutput).mockResolvedValue({
@@ -267,9 +586,27 @@ describe('Nucel CLI Setup Action', () => {
 
       await run(inputs, mockContext)
 
-      // Token is stored in inputs but not used in direct binary download
-      // This test verifies the action accepts the token parameter without error
-      expect(inputs.token).toBe('test-token')
+      expect(core.setSecret).toHaveBeenCalledWith('test-token')
+      expect(core.exportVariable).toHaveBeenCalledWith('NUCEL_TOKEN', 'test-token')
+      expect(exec.getExecOutput).toHaveBeenCalledWith(
+        expect.stringContaining('nucel'),
+        ['whoami'],
+        expect.objectContaining({ env: expect.objectContaining({ NUCEL_TOKEN: 'test-token' }) }),
+      )
+      expect(core.saveState).toHaveBeenCalledWith('authenticatedCliPath', expect.stringContaining('nucel'))
+    })
+
+    it('should fail the setup step when the token is rejected', async () => {
+      vi.mocked(cache.restoreCache).mockResolvedValue('cache-key')
+      vi.mocked(tc.find).mockReturnValueOnce('').mockReturnValueOnce(toolDir)
+      vi.mocked(fs.access).mockResolvedValue()
+      vi.mocked(exec.exec).mockResolvedValue(0)
+      vi.mocked(exec.getExecOutput).mockResolvedValue({ exitCode: 1, stdout: '', stderr: 'invalid token' })
+
+      await expect(run({ version: 'latest', token: 'bad-token' }, mockContext)).rejects.toThrow(
+        'Nucel CLI authentication failed: invalid token',
+      )
+      expect(core.setOutput).not.toHaveBeenCalledWith('cli-path', expect.anything())
     })
 
     it('should handle custom install path', async () => {
@@ -280,7 +617,7 @@ describe('Nucel CLI Setup Action', () => {
       vi.mocked(cache.saveCache).mockResolvedValue(0)
 
       // Mock successful binary download and extraction
-      vi.mocked(tc.downloadTool).mockResolvedValue('/tmp/downloaded-file.tar.gz')
+      vi.mocked(downloadFile).mockResolvedValue('/tmp/downloaded-file.tar.gz')
       vi.mocked(tc.extractTar).mockResolvedValue('/tmp/extracted')
       vi.mocked(exec.exec).mockResolvedValue(0) // For chmod and verification
       vi.mocked(exec.getExecOutput).mockResolvedValue({
@@ -296,26 +633,691 @@ describe('Nucel CLI Setup Action', () => {
 
       await run(inputs, mockContext)
 
-      // Custom install path is not used in current implementation
-      // but the action should still work
+      expect(fs.mkdir).toHaveBeenCalledWith('/custom/path', { recursive: true })
+      const tempPath = expect.stringMatching(/^\/custom\/path\/nucel\.[\w-]+\.tmp$/)
+      expect(fs.copyFile).toHaveBeenCalledWith(path.join(toolDir, 'nucel'), tempPath)
+      expect(fs.chmod).toHaveBeenCalledWith(tempPath, 0o755)
+      expect(fs.rename).toHaveBeenCalledWith(tempPath, path.join('/custom/path', 'nucel'))
+      expect(core.addPath).toHaveBeenCalledWith('/custom/path')
+      expect(core.setOutput).toHaveBeenCalledWith('cli-path', path.join('/custom/path', 'nucel'))
       expect(core.setOutput).toHaveBeenCalledWith('cli-version', '1.0.0')
     })
   })
 
+  describe('installed CLI', () => {
+    const pathBinary = '/opt/nucel/bin/nucel'
+
+    beforeEach(() => {
+      vi.mocked(cache.restoreCache).mockResolvedValue(undefined)
+      vi.mocked(downloadFile).mockResolvedValue('/tmp/downloaded-file.tar.gz')
+      vi.mocked(tc.extractTar).mockResolvedValue('/tmp/extracted')
+      vi.mocked(exec.exec).mockResolvedValue(0)
+      vi.mocked(fs.access).mockResolvedValue()
+    })
+
+    const mockPathBinary = (version: string) => {
+      vi.mocked(io.which).mockResolvedValue(pathBinary)
+      vi.mocked(exec.getExecOutput).mockResolvedValue({ exitCode: 0, stdout: `nucel ${version}\n`, stderr: '' })
+    }
+
+    it('should reuse a CLI on PATH that satisfies the version without any network access', async () => {
+      mockPathBinary('1.2.9')
+
+      await run({ version: '^1.2' }, mockContext)
+
+      expect(fetch).not.toHaveBeenCalled()
+      expect(downloadFile).not.toHaveBeenCalled()
+      expect(core.info).toHaveBeenCalledWith(`Nucel CLI found on PATH at ${pathBinary}`)
+      expect(core.setOutput).toHaveBeenCalledWith('cli-path', pathBinary)
+      expect(core.setOutput).toHaveBeenCalledWith('resolved-version', '1.2.9')
+      expect(core.setOutput).toHaveBeenCalledWith('cache-hit', false)
+    })
+
+    it('should download when the CLI on PATH does not satisfy the version', async () => {
+      mockPathBinary('1.1.0')
+
+      await run({ version: '^1.2' }, mockContext)
+
+      expect(downloadFile).toHaveBeenCalledWith(`${releaseDownloadUrl}/cli-v1.3.0/nucel-cli-linux-x64.tar.gz`, path.join(workDir, '1.3.0', 'nucel-cli-linux-x64.tar.gz'), {})
+      expect(core.setOutput).toHaveBeenCalledWith('cli-path', path.join(toolDir, 'nucel'))
+    })
+
+    it('should ignore a CLI on PATH whose version cannot be determined', async () => {
+      vi.mocked(io.which).mockResolvedValue(pathBinary)
+      vi.mocked(exec.getExecOutput).mockResolvedValue({ exitCode: 1, stdout: '', stderr: 'unknown flag' })
+
+      await run({ version: 'latest' }, mockContext)
+
+      expect(core.info).toHaveBeenCalledWith(`Ignoring ${pathBinary}: could not determine its version`)
+      expect(downloadFile).toHaveBeenCalled()
+    })
+
+    it('should pick the highest satisfying version from the tool cache', async () => {
+      vi.mocked(tc.findAllVersions).mockReturnValue(['1.0.0', '1.2.3', '1.2.5', '2.0.0'])
+      vi.mocked(tc.find).mockImplementation((_tool, version) => path.join('/toolcache', 'nucel', version, 'x64'))
+      mockPathBinary('1.2.4')
+
+      await run({ version: '~1.2' }, mockContext)
+
+      expect(fetch).not.toHaveBeenCalled()
+      expect(tc.find).toHaveBeenCalledWith('nucel', '1.2.5', 'x64')
+      expect(core.setOutput).toHaveBeenCalledWith('cli-path', path.join('/toolcache', 'nucel', '1.2.5', 'x64', 'nucel'))
+    })
+
+    it('should always resolve latest instead of reusing an older CLI', async () => {
+      vi.mocked(tc.findAllVersions).mockReturnValue(['1.2.3'])
+      vi.mocked(tc.find).mockImplementation((_tool, version) => (version === '1.2.3' ? path.join('/toolcache', 'nucel', '1.2.3', 'x64') : ''))
+      mockPathBinary('1.2.9')
+
+      await run({ version: 'latest' }, mockContext)
+
+      expect(fetch).toHaveBeenCalled()
+      expect(downloadFile).toHaveBeenCalledWith(`${releaseDownloadUrl}/cli-v1.3.0/nucel-cli-linux-x64.tar.gz`, path.join(workDir, '1.3.0', 'nucel-cli-linux-x64.tar.gz'), {})
+      expect(core.setOutput).toHaveBeenCalledWith('resolved-version', '1.3.0')
+    })
+
+    it('should look for a newer release with check-latest', async () => {
+      vi.mocked(tc.findAllVersions).mockReturnValue(['1.2.3'])
+      vi.mocked(tc.find).mockImplementation((_tool, version) => (version === '1.2.3' ? path.join('/toolcache', 'nucel', '1.2.3', 'x64') : ''))
+
+      await run({ version: '^1.2', checkLatest: true }, mockContext)
+
+      expect(fetch).toHaveBeenCalled()
+      expect(downloadFile).toHaveBeenCalledWith(`${releaseDownloadUrl}/cli-v1.3.0/nucel-cli-linux-x64.tar.gz`, path.join(workDir, '1.3.0', 'nucel-cli-linux-x64.tar.gz'), {})
+      expect(core.setOutput).toHaveBeenCalledWith('resolved-version', '1.3.0')
+    })
+
+    it('should not reuse a CLI on PATH when the archive has to be verified', async () => {
+      mockPathBinary('1.3.0')
+
+      await run({ version: '^1.2', checksum: archiveSha256 }, mockContext)
+
+      expect(fetch).toHaveBeenCalled()
+      expect(core.info).not.toHaveBeenCalledWith(`Nucel CLI found on PATH at ${pathBinary}`)
+      expect(downloadFile).toHaveBeenCalledWith(`${releaseDownloadUrl}/cli-v1.3.0/nucel-cli-linux-x64.tar.gz`, path.join(workDir, '1.3.0', 'nucel-cli-linux-x64.tar.gz'), {})
+      expect(core.setOutput).toHaveBeenCalledWith('cli-path', path.join(toolDir, 'nucel'))
+    })
+
+    it('should reuse a CLI on PATH with check-latest when it is the newest release', async () => {
+      mockPathBinary('1.3.0')
+
+      await run({ version: 'latest', checkLatest: true }, mockContext)
+
+      expect(fetch).toHaveBeenCalled()
+      expect(downloadFile).not.toHaveBeenCalled()
+      expect(core.setOutput).toHaveBeenCalledWith('cli-path', pathBinary)
+    })
+  })
+
+  describe('archive verification', () => {
+    beforeEach(() => {
+      vi.mocked(cache.restoreCache).mockResolvedValue(undefined)
+      vi.mocked(cache.saveCache).mockResolvedValue(0)
+      vi.mocked(downloadFile).mockResolvedValue('/tmp/downloaded-file.tar.gz')
+      vi.mocked(tc.extractTar).mockResolvedValue('/tmp/extracted')
+      vi.mocked(exec.exec).mockResolvedValue(0)
+      vi.mocked(exec.getExecOutput).mockResolvedValue({ exitCode: 0, stdout: 'nucel-cli 1.3.0', stderr: '' })
+      vi.mocked(fs.access).mockResolvedValue()
+    })
+
+    it('should verify the archive against the checksum input', async () => {
+      await run({ version: 'latest', checksum: archiveSha256.toUpperCase() }, mockContext)
+
+      expect(core.setOutput).toHaveBeenCalledWith('sha256', archiveSha256)
+      expect(tc.extractTar).toHaveBeenCalled()
+    })
+
+    it('should fail on a checksum mismatch before extracting', async () => {
+      await expect(run({ version: 'latest', checksum: 'a'.repeat(64) }, mockContext)).rejects.toThrow(
+        `Checksum mismatch for nucel-cli-linux-x64.tar.gz: expected ${'a'.repeat(64)}, got ${archiveSha256}`,
+      )
+      expect(tc.extractTar).not.toHaveBeenCalled()
+    })
+
+    it('should verify the archive against the release SHA256SUMS manifest', async () => {
+      const release = githubRelease('cli-v1.3.0')
+      vi.stubGlobal(
+        'fetch',
+        vi.fn().mockImplementation(async (url: string) =>
+          url.endsWith('SHA256SUMS')
+            ? new Response(`${'b'.repeat(64)}  nucel-cli-darwin-x64.tar.gz\n${archiveSha256}  nucel-cli-linux-x64.tar.gz\n`)
+            : new Response(JSON.stringify([release])),
+        ),
+      )
+
+      await run({ version: 'latest' }, mockContext)
+
+      expect(core.info).toHaveBeenCalledWith(`Checksum verified: sha256:${archiveSha256}`)
+      expect(core.setOutput).toHaveBeenCalledWith('sha256', archiveSha256)
+    })
+
+    it('should refuse an archive without a checksum unless allow-unverified is set', async () => {
+      const release = githubRelease('cli-v1.3.0')
+      release.assets = release.assets.filter(({ name }) => name !== 'SHA256SUMS')
+      vi.stubGlobal('fetch', vi.fn().mockImplementation(async () => new Response(JSON.stringify([release]))))
+
+      await expect(run({ version: 'latest' }, mockContext)).rejects.toThrow(
+        'No checksum available for nucel-cli-linux-x64.tar.gz in release cli-v1.3.0. Set checksum to its SHA-256 digest, or allow-unverified to install it without verification',
+      )
+      expect(tc.extractTar).not.toHaveBeenCalled()
+
+      await run({ version: 'latest', allowUnverified: true }, mockContext)
+
+      expect(core.warning).toHaveBeenCalledWith(
+        'No checksum available for nucel-cli-linux-x64.tar.gz in release cli-v1.3.0; skipping verification',
+      )
+      expect(tc.extractTar).toHaveBeenCalled()
+    })
+
+    it('should report missing provenance like other installation failures', async () => {
+      await expect(run({ version: 'latest', verifyProvenance: true }, mockContext)).rejects.toThrow(
+        'Failed to install Nucel CLI: Error: No provenance bundle for nucel-cli-linux-x64.tar.gz in release cli-v1.3.0',
+      )
+      expect(tc.extractTar).not.toHaveBeenCalled()
+    })
+
+    it('should keep an unverified install out of the Actions cache', async () => {
+      const release = githubRelease('cli-v1.3.0')
+      release.assets = release.assets.filter(({ name }) => name !== 'SHA256SUMS')
+      vi.stubGlobal('fetch', vi.fn().mockImplementation(async () => new Response(JSON.stringify([release]))))
+
+      await run({ version: 'latest', allowUnverified: true }, mockContext)
+
+      expect(fs.writeFile).toHaveBeenCalledWith(
+        path.join(toolDir, 'nucel-install.json'),
+        JSON.stringify({ sha256: archiveSha256, verified: false, provenance: false }),
+      )
+      expect(core.info).toHaveBeenCalledWith('Not saving Nucel CLI to the Actions cache, since its archive was not verified')
+      expect(cache.saveCache).not.toHaveBeenCalled()
+    })
+
+    it('should reinstall a cached CLI whose archive does not match the checksum input', async () => {
+      vi.mocked(tc.find).mockReturnValue(toolDir)
+      mockedInstallRecord = { sha256: 'f'.repeat(64), verified: true, provenance: false }
+
+      await run({ version: 'latest', checksum: archiveSha256 }, mockContext)
+
+      expect(core.info).toHaveBeenCalledWith(
+        `Not reusing Nucel CLI 1.3.0 from the tool cache: its archive has digest ${'f'.repeat(64)}, expected ${archiveSha256}`,
+      )
+      expect(downloadFile).toHaveBeenCalled()
+      expect(core.setOutput).toHaveBeenCalledWith('cache-hit', false)
+    })
+
+    it('should reinstall a cached CLI that has no record of its archive', async () => {
+      vi.mocked(tc.find).mockReturnValue(toolDir)
+      mockedInstallRecord = null
+
+      await run({ version: 'latest' }, mockContext)
+
+      expect(core.info).toHaveBeenCalledWith(
+        'Not reusing Nucel CLI 1.3.0 from the tool cache: there is no record of the archive it came from',
+      )
+      expect(downloadFile).toHaveBeenCalled()
+    })
+
+    it('should not reuse an Actions cache entry without provenance when verify-provenance is set', async () => {
+      vi.mocked(cache.restoreCache).mockResolvedValue('nucel-cli-1.3.0-linux-x64')
+      vi.mocked(tc.find).mockReturnValueOnce('').mockReturnValue(toolDir)
+
+      await expect(run({ version: 'latest', verifyProvenance: true }, mockContext)).rejects.toThrow(
+        'No provenance bundle for nucel-cli-linux-x64.tar.gz in release cli-v1.3.0',
+      )
+      expect(core.info).toHaveBeenCalledWith(
+        'Not reusing Nucel CLI 1.3.0 from the Actions cache: the provenance of its archive was not verified',
+      )
+      expect(core.info).not.toHaveBeenCalledWith('Nucel CLI restored from cache')
+    })
+
+    it('should reject a malformed checksum input', async () => {
+      await expect(run({ version: 'latest', checksum: 'not-a-digest' }, mockContext)).rejects.toThrow(
+        'checksum must be a hex-encoded SHA-256 digest',
+      )
+    })
+
+    it('should reject a negative lock timeout', async () => {
+      await expect(run({ version: 'latest', lockTimeout: -1 }, mockContext)).rejects.toThrow(
+        'lock-timeout must be a non-negative number of seconds',
+      )
+    })
+  })
+
+  describe('outputs and job summary', () => {
+    const downloadUrl = `${releaseDownloadUrl}/cli-v1.3.0/nucel-cli-linux-x64.tar.gz`
+
+    beforeEach(() => {
+      vi.mocked(cache.restoreCache).mockResolvedValue(undefined)
+      vi.mocked(downloadFile).mockResolvedValue('/tmp/downloaded-file.tar.gz')
+      vi.mocked(tc.extractTar).mockResolvedValue('/tmp/extracted')
+      vi.mocked(exec.exec).mockResolvedValue(0)
+      vi.mocked(fs.access).mockResolvedValue()
+      for (const method of ['addHeading', 'addTable'] as const) {
+        vi.mocked(core.summary[method]).mockReturnValue(core.summary)
+      }
+    })
+
+    afterEach(() => {
+      delete process.env.GITHUB_STEP_SUMMARY
+    })
+
+    it('should set the extended outputs after a download', async () => {
+      vi.mocked(exec.getExecOutput).mockResolvedValue({ exitCode: 0, stdout: 'nucel-cli v1.3.0 (abc1234)\n', stderr: '' })
+
+      await run({ version: '^1.2' }, mockContext)
+
+      expect(core.setOutput).toHaveBeenCalledWith('cli-version', '1.3.0')
+      expect(core.setOutput).toHaveBeenCalledWith('resolved-version', '1.3.0')
+      expect(core.setOutput).toHaveBeenCalledWith('cache-hit', false)
+      expect(core.setOutput).toHaveBeenCalledWith('download-url', downloadUrl)
+      expect(core.setOutput).toHaveBeenCalledWith('install-dir', toolDir)
+      expect(core.setOutput).toHaveBeenCalledWith('sha256', archiveSha256)
+      expect(core.setOutput).toHaveBeenCalledWith('duration-ms', expect.any(Number))
+    })
+
+    it('should report cache hits with the recorded digest but no download URL', async () => {
+      vi.mocked(tc.find).mockReturnValue(toolDir)
+      vi.mocked(exec.getExecOutput).mockResolvedValue({ exitCode: 0, stdout: 'nucel 1.3.0', stderr: '' })
+
+      await run({ version: 'latest' }, mockContext)
+
+      expect(fs.readFile).toHaveBeenCalledWith(path.join(toolDir, 'nucel-install.json'), 'utf-8')
+      expect(core.setOutput).toHaveBeenCalledWith('cache-hit', true)
+      expect(core.setOutput).toHaveBeenCalledWith('download-url', '')
+      expect(core.setOutput).toHaveBeenCalledWith('sha256', archiveSha256)
+    })
+
+    it('should fall back to the resolved version when the CLI output has none', async () => {
+      vi.mocked(exec.getExecOutput).mockResolvedValue({ exitCode: 0, stdout: 'nucel dev build', stderr: '' })
+
+      await run({ version: 'latest' }, mockContext)
+
+      expect(core.setOutput).toHaveBeenCalledWith('cli-version', '1.3.0')
+      expect(core.warning).toHaveBeenCalledWith('Could not parse the Nucel CLI version from "nucel dev build", using 1.3.0')
+    })
+
+    it('should write a job summary', async () => {
+      process.env.GITHUB_STEP_SUMMARY = '/tmp/step-summary.md'
+      vi.mocked(exec.getExecOutput).mockResolvedValue({ exitCode: 0, stdout: 'nucel 1.3.0', stderr: '' })
+
+      await run({ version: '^1.2' }, mockContext)
+
+      expect(core.summary.addHeading).toHaveBeenCalledWith('Nucel CLI', 3)
+      const rows = vi.mocked(core.summary.addTable).mock.calls[0][0]
+      expect(rows).toContainEqual(['Requested version', '<code>^1.2</code>'])
+      expect(rows).toContainEqual(['Resolved version', '<code>1.3.0</code>'])
+      expect(rows).toContainEqual(['Platform', '<code>linux-x64</code>'])
+      expect(rows).toContainEqual(['Source', `Downloaded from <code>${downloadUrl}</code>`])
+      expect(rows).toContainEqual(['Timings', expect.stringMatching(/^resolve \d+ ms, install \d+ ms, total \d+ ms$/)])
+      expect(core.summary.write).toHaveBeenCalled()
+    })
+
+    it('should write a table per version', async () => {
+      process.env.GITHUB_STEP_SUMMARY = '/tmp/step-summary.md'
+      vi.mocked(exec.getExecOutput).mockResolvedValue({ exitCode: 0, stdout: 'nucel 1.3.0', stderr: '' })
+
+      await run({ version: '1.2.3, 1.3.0' }, mockContext)
+
+      expect(core.summary.addHeading).toHaveBeenCalledWith('Nucel CLI', 3)
+      expect(core.summary.addHeading).toHaveBeenCalledWith('1.2.3', 4)
+      expect(core.summary.addHeading).toHaveBeenCalledWith('1.3.0', 4)
+      expect(core.summary.addTable).toHaveBeenCalledTimes(2)
+      expect(core.summary.write).toHaveBeenCalledTimes(1)
+    })
+
+    it('should not fail the step when the job summary cannot be written', async () => {
+      process.env.GITHUB_STEP_SUMMARY = '/tmp/step-summary.md'
+      vi.mocked(core.summary.write).mockRejectedValueOnce(new Error('EACCES'))
+
+      await run({ version: 'latest' }, mockContext)
+
+      expect(core.warning).toHaveBeenCalledWith('Failed to write job summary: Error: EACCES')
+    })
+  })
+
+  describe('version policy', () => {
+    const policyUrl = `${releaseDownloadUrl}/cli-v1.4.2/nucel-version-policy.json`
+
+    beforeEach(() => {
+      // A tool cache hit, which never needs the release list to install
+      vi.mocked(tc.findAllVersions).mockReturnValue(['1.3.0'])
+      vi.mocked(tc.find).mockReturnValue(toolDir)
+      vi.mocked(fs.access).mockResolvedValue()
+      vi.mocked(exec.exec).mockResolvedValue(0)
+      vi.mocked(exec.getExecOutput).mockResolvedValue({ exitCode: 0, stdout: 'nucel 1.3.0', stderr: '' })
+      const newer = githubRelease('cli-v1.4.2')
+      newer.assets.push({ name: 'nucel-version-policy.json', browser_download_url: policyUrl })
+      vi.stubGlobal(
+        'fetch',
+        vi.fn().mockImplementation(async (url: string) =>
+          url === policyUrl
+            ? new Response(JSON.stringify({ versions: [{ range: '1.3.x', status: 'deprecated', reason: 'end of life' }] }))
+            : url.endsWith('/SHA256SUMS')
+              ? releaseApi(url)
+              : new Response(JSON.stringify([newer, ...releaseList])),
+        ),
+      )
+    })
+
+    it('should skip a cached CLI below min-version and resolve an allowed release', async () => {
+      await run({ version: '^1.2', minVersion: '1.4.0' }, mockContext)
+
+      expect(core.info).toHaveBeenCalledWith('Not reusing Nucel CLI 1.3.0 from the tool cache, which the version policy does not allow')
+      expect(fetch).toHaveBeenCalled()
+      expect(core.error).not.toHaveBeenCalled()
+      expect(core.setOutput).toHaveBeenCalledWith('resolved-version', '1.4.2')
+    })
+
+    it('should fail a resolved version before installing it and name the upgrade target', async () => {
+      await expect(run({ version: '1.3.0', minVersion: '1.4.0' }, mockContext)).rejects.toThrow(
+        'Nucel CLI 1.3.0 is not allowed by the version policy, see the annotations',
+      )
+
+      expect(core.error).toHaveBeenCalledWith(
+        'Nucel CLI 1.3.0 is not allowed: it is older than min-version 1.4.0. Upgrade to 1.4.2.',
+        { title: 'Nucel CLI version policy' },
+      )
+      expect(cache.restoreCache).not.toHaveBeenCalled()
+      expect(downloadFile).not.toHaveBeenCalled()
+      expect(core.addPath).not.toHaveBeenCalled()
+    })
+
+    it('should fail a version matched by deny-versions', async () => {
+      await expect(run({ version: '1.3.0', denyVersions: '1.0.0\n>=1.3.0 <1.4.0' }, mockContext)).rejects.toThrow(
+        'not allowed by the version policy',
+      )
+    })
+
+    it('should warn on a version the release policy deprecates', async () => {
+      await run({ version: '^1.2', releasePolicy: true }, mockContext)
+
+      expect(fetch).toHaveBeenCalledWith(policyUrl, { headers: {} })
+      expect(core.warning).toHaveBeenCalledWith(
+        'Nucel CLI 1.3.0 is not recommended: it is deprecated (end of life). Upgrade to 1.4.2.',
+        { title: 'Nucel CLI version policy' },
+      )
+      expect(core.setOutput).toHaveBeenCalledWith('cli-path', path.join(toolDir, 'nucel'))
+    })
+
+    it('should skip the release list when no policy applies', async () => {
+      await run({ version: '^1.2', minVersion: '1.0.0', denyVersions: '1.2.3' }, mockContext)
+
+      expect(fetch).not.toHaveBeenCalled()
+    })
+
+    it('should validate min-version and deny-versions', async () => {
+      await expect(run({ version: 'latest', minVersion: '1.4' }, mockContext)).rejects.toThrow(
+        'min-version must be a valid semantic version',
+      )
+      await expect(run({ version: 'latest', denyVersions: '1.3.0, not-a-range' }, mockContext)).rejects.toThrow(
+        'deny-versions must be a list of versions or semver ranges',
+      )
+    })
+  })
+
+  describe('multiple versions', () => {
+    const getToolDir = (version: string) => path.join('/toolcache', 'nucel', version, 'x64')
+    const aliasDir = path.join(workDir, 'bin')
+
+    beforeEach(() => {
+      vi.mocked(fs.access).mockResolvedValue()
+      vi.mocked(exec.exec).mockResolvedValue(0)
+      vi.mocked(exec.getExecOutput).mockImplementation(async (command) => ({
+        exitCode: 0,
+        stdout: `nucel ${path.basename(path.dirname(path.dirname(command)))}`,
+        stderr: '',
+      }))
+    })
+
+    it('should install each version with an alias and make the first one the default', async () => {
+      vi.mocked(tc.find).mockImplementation((_tool, version) => (version === '1.2.3' ? getToolDir('1.2.3') : ''))
+      vi.mocked(cache.restoreCache).mockResolvedValue(undefined)
+      vi.mocked(downloadFile).mockResolvedValue('/tmp/downloaded-file.tar.gz')
+      vi.mocked(tc.extractTar).mockImplementation(async (_file, dest) => dest!)
+
+      await run({ version: '1.2.3, 2.0.0-beta.1' }, mockContext)
+
+      // Only the beta is downloaded, into a directory of its own
+      expect(downloadFile).toHaveBeenCalledTimes(1)
+      expect(downloadFile).toHaveBeenCalledWith(
+        `${releaseDownloadUrl}/cli-v2.0.0-beta.1/nucel-cli-linux-x64.tar.gz`,
+        path.join(workDir, '2.0.0-beta.1', 'nucel-cli-linux-x64.tar.gz'),
+        {},
+      )
+      expect(fs.copyFile).toHaveBeenCalledWith(
+        path.join(workDir, '2.0.0-beta.1', 'extracted', 'nucel-cli-linux-x64'),
+        expect.stringMatching(/\.tmp$/),
+      )
+      expect(cache.saveCache).toHaveBeenCalledWith(expect.any(Array), 'nucel-cli-2.0.0-beta.1-linux-x64')
+
+      expect(fs.symlink).toHaveBeenCalledWith(path.join(getToolDir('1.2.3'), 'nucel'), path.join(aliasDir, 'nucel-1.2.3'))
+      expect(fs.symlink).toHaveBeenCalledWith(
+        path.join(getToolDir('2.0.0-beta.1'), 'nucel'),
+        path.join(aliasDir, 'nucel-2.0.0-beta.1'),
+      )
+      expect(core.addPath).toHaveBeenCalledWith(aliasDir)
+      expect(core.addPath).toHaveBeenLastCalledWith(getToolDir('1.2.3'))
+      expect(core.setOutput).toHaveBeenCalledWith(
+        'versions',
+        JSON.stringify({
+          '1.2.3': path.join(getToolDir('1.2.3'), 'nucel'),
+          '2.0.0-beta.1': path.join(getToolDir('2.0.0-beta.1'), 'nucel'),
+        }),
+      )
+      expect(core.setOutput).toHaveBeenCalledWith('cli-version', '1.2.3')
+      expect(core.setOutput).toHaveBeenCalledWith('cli-path', path.join(getToolDir('1.2.3'), 'nucel'))
+    })
+
+    it('should point nucel at default-version', async () => {
+      vi.mocked(tc.find).mockImplementation((_tool, version) => getToolDir(version))
+
+      await run({ version: '1.2.3\n1.3.0', defaultVersion: '1.3.0', command: 'deploy' }, mockContext)
+
+      expect(core.addPath).toHaveBeenLastCalledWith(getToolDir('1.3.0'))
+      expect(core.setOutput).toHaveBeenCalledWith('cli-path', path.join(getToolDir('1.3.0'), 'nucel'))
+      expect(exec.getExecOutput).toHaveBeenLastCalledWith(path.join(getToolDir('1.3.0'), 'nucel'), ['deploy'], expect.any(Object))
+    })
+
+    it('should map a single version without adding aliases', async () => {
+      vi.mocked(tc.find).mockImplementation((_tool, version) => getToolDir(version))
+
+      await run({ version: '1.3.0' }, mockContext)
+
+      expect(core.setOutput).toHaveBeenCalledWith('versions', JSON.stringify({ '1.3.0': path.join(getToolDir('1.3.0'), 'nucel') }))
+      expect(fs.symlink).not.toHaveBeenCalled()
+      expect(core.addPath).toHaveBeenCalledTimes(1)
+    })
+
+    it('should reject a default-version that is not in the list', async () => {
+      await expect(run({ version: '1.2.3, 1.3.0', defaultVersion: '2.0.0' }, mockContext)).rejects.toThrow(
+        'default-version must be one of the versions in version (1.2.3, 1.3.0)',
+      )
+    })
+
+    it('should reject a checksum for several versions', async () => {
+      await expect(run({ version: '1.2.3, 1.3.0', checksum: archiveSha256 }, mockContext)).rejects.toThrow(
+        'checksum only applies to a single version',
+      )
+    })
+
+    it('should validate every version in the list', async () => {
+      await expect(run({ version: '1.2.3, not-a-version' }, mockContext)).rejects.toThrow('version must be "latest"')
+    })
+  })
+
+  describe('npm install source', () => {
+    const npmToolDir = path.join('/toolcache', 'nucel-npm', '1.4.0', 'x64')
+    const npmPath = path.join(npmToolDir, 'node_modules', '.bin', 'nucel')
+
+    beforeEach(() => {
+      vi.mocked(cache.restoreCache).mockResolvedValue(undefined)
+      vi.mocked(fs.access).mockResolvedValue()
+      vi.mocked(exec.exec).mockResolvedValue(0)
+      vi.mocked(exec.getExecOutput).mockImplementation(async (command, args) =>
+        command === 'npm'
+          ? { exitCode: 0, stdout: '["1.3.0","1.4.0"]', stderr: '' }
+          : { exitCode: 0, stdout: `nucel ${args?.[0] === '--version' ? '1.4.0' : ''}`, stderr: '' },
+      )
+    })
+
+    it('should install the pinned npm package into an isolated prefix and cache it', async () => {
+      await run({ version: '^1', installSource: 'npm' }, mockContext)
+
+      expect(fetch).not.toHaveBeenCalled()
+      expect(exec.getExecOutput).toHaveBeenCalledWith('npm', ['view', '@nucel.cloud/cli@^1', 'version', '--json'], expect.any(Object))
+      expect(exec.exec).toHaveBeenCalledWith(
+        'npm',
+        ['install', '@nucel.cloud/cli@1.4.0', '--prefix', path.join(workDir, 'npm', '1.4.0'), '--save-exact', '--no-audit', '--no-fund'],
+        expect.any(Object),
+      )
+      const tempDir = expect.stringMatching(new RegExp(`^${npmToolDir}\\.[\\w-]+\\.tmp$`))
+      expect(fs.cp).toHaveBeenCalledWith(path.join(workDir, 'npm', '1.4.0'), tempDir, { recursive: true, verbatimSymlinks: true })
+      expect(fs.rename).toHaveBeenCalledWith(tempDir, npmToolDir)
+      expect(fs.writeFile).toHaveBeenCalledWith(`${npmToolDir}.complete`, '')
+      expect(cache.saveCache).toHaveBeenCalledWith([npmToolDir, `${npmToolDir}.complete`], 'nucel-cli-npm-1.4.0-linux-x64')
+      expect(core.addPath).toHaveBeenCalledWith(path.dirname(npmPath))
+      expect(core.setOutput).toHaveBeenCalledWith('cli-path', npmPath)
+      expect(core.setOutput).toHaveBeenCalledWith('resolved-version', '1.4.0')
+      expect(core.setOutput).toHaveBeenCalledWith('cache-hit', false)
+    })
+
+    it('should reuse a cached npm install', async () => {
+      vi.mocked(tc.findAllVersions).mockImplementation((tool) => (tool === 'nucel-npm' ? ['1.4.0'] : []))
+      vi.mocked(tc.find).mockImplementation((tool, version) => (tool === 'nucel-npm' && version === '1.4.0' ? npmToolDir : ''))
+
+      await run({ version: '^1', installSource: 'npm' }, mockContext)
+
+      expect(exec.getExecOutput).not.toHaveBeenCalledWith('npm', expect.anything(), expect.anything())
+      expect(core.setOutput).toHaveBeenCalledWith('cli-path', npmPath)
+      expect(core.setOutput).toHaveBeenCalledWith('cache-hit', true)
+    })
+
+    it('should fall back to npm in auto mode when the platform has no release asset', async () => {
+      Object.defineProperty(process, 'platform', { value: 'freebsd', writable: true })
+
+      await run({ version: 'latest', installSource: 'auto' }, mockContext)
+
+      expect(core.info).toHaveBeenCalledWith(
+        expect.stringMatching(/^Nucel CLI is not available for freebsd-x64\. .*, installing the @nucel\.cloud\/cli npm package instead$/),
+      )
+      expect(exec.getExecOutput).toHaveBeenCalledWith('npm', ['view', '@nucel.cloud/cli@latest', 'version', '--json'], expect.any(Object))
+      expect(core.setOutput).toHaveBeenCalledWith('cli-path', npmPath)
+      expect(core.setOutput).toHaveBeenCalledWith('platform', 'freebsd')
+    })
+
+    it('should fall back to npm in auto mode when the release has no asset for the platform', async () => {
+      vi.mocked(fetch).mockImplementation(async () =>
+        new Response(JSON.stringify(releaseList.map((release) => ({ ...release, assets: [] })))),
+      )
+
+      await run({ version: '1.3.0', installSource: 'auto' }, mockContext)
+
+      expect(downloadFile).not.toHaveBeenCalled()
+      expect(exec.getExecOutput).toHaveBeenCalledWith('npm', ['view', '@nucel.cloud/cli@1.3.0', 'version', '--json'], expect.any(Object))
+    })
+
+    it('should not fall back to npm for a version that was never released', async () => {
+      await expect(run({ version: '9.9.9', installSource: 'auto' }, mockContext)).rejects.toThrow(
+        'No Nucel CLI release matching "9.9.9" has an asset for this platform',
+      )
+      expect(exec.getExecOutput).not.toHaveBeenCalledWith('npm', expect.anything(), expect.anything())
+    })
+
+    it('should pass the registry and npm-token to npm', async () => {
+      await run(
+        { version: '1.4.0', installSource: 'npm', npmRegistryUrl: 'https://npm.example.com/nucel/', npmToken: 'npm-token' },
+        mockContext,
+      )
+
+      expect(core.setSecret).toHaveBeenCalledWith('npm-token')
+      const npmrcPath = path.join(workDir, '.npmrc')
+      expect(fs.writeFile).toHaveBeenCalledWith(
+        npmrcPath,
+        'registry=https://npm.example.com/nucel/\n//npm.example.com/nucel/:_authToken=${NUCEL_NPM_TOKEN}\n',
+      )
+      expect(exec.exec).toHaveBeenCalledWith(
+        'npm',
+        expect.arrayContaining(['install', '--userconfig', npmrcPath]),
+        expect.objectContaining({ env: expect.objectContaining({ NUCEL_NPM_TOKEN: 'npm-token' }) }),
+      )
+    })
+
+    it('should reject an unknown install source', async () => {
+      await expect(run({ version: 'latest', installSource: 'brew' }, mockContext)).rejects.toThrow(
+        'install-source must be "release", "npm" or "auto"',
+      )
+    })
+  })
+
   describe('cleanup function', () => {
     it('should clean up temporary files', async () => {
+      process.env.RUNNER_TEMP = '/runner/temp'
+      vi.mocked(core.getState).mockImplementation((name) => (name === 'workDir' ? workDir : ''))
+      vi.mocked(fs.readdir).mockResolvedValue(['nucel-cli-linux-x64.tar.gz', 'extracted'] as any)
       vi.mocked(fs.rm).mockResolvedValue()
 
       await cleanup()
 
-      expect(fs.rm).toHaveBeenCalledWith(
-        path.join(process.cwd(), 'nucel-cache'),
-        { recursive: true, force: true }
-      )
+      expect(fs.rm).toHaveBeenCalledTimes(1)
+      expect(fs.rm).toHaveBeenCalledWith(workDir, { recursive: true, force: true })
+      expect(core.info).toHaveBeenCalledWith(`Removing ${path.join(workDir, 'nucel-cli-linux-x64.tar.gz')}`)
+      expect(core.info).toHaveBeenCalledWith(`Removing ${path.join(workDir, 'extracted')}`)
       expect(core.info).toHaveBeenCalledWith('Temporary files cleaned up')
     })
 
+    it('should summarize the recorded invocations before removing the working directory', async () => {
+      process.env.RUNNER_TEMP = '/runner/temp'
+      process.env.GITHUB_STEP_SUMMARY = '/tmp/step-summary.md'
+      const logPath = path.join(workDir, 'usage.jsonl')
+      vi.mocked(core.getState).mockImplementation((name) => ({ workDir, usageLog: logPath })[name] ?? '')
+      vi.mocked(fs.readFile).mockResolvedValue(
+        `${JSON.stringify({ subcommand: 'deploy', args: ['deploy'], exitCode: 0, durationMs: 900, startedAt: '2026-10-19T10:00:00.000Z' })}\n`,
+      )
+      vi.mocked(fs.readdir).mockResolvedValue(['usage.jsonl'] as any)
+      vi.mocked(core.summary.addHeading).mockReturnValue(core.summary)
+      vi.mocked(core.summary.addRaw).mockReturnValue(core.summary)
+      vi.mocked(core.summary.addTable).mockReturnValue(core.summary)
+
+      await cleanup()
+
+      expect(fs.readFile).toHaveBeenCalledWith(logPath, 'utf-8')
+      expect(core.summary.addHeading).toHaveBeenCalledWith('Nucel CLI usage', 3)
+      expect(vi.mocked(core.summary.write).mock.invocationCallOrder[0]).toBeLessThan(vi.mocked(fs.rm).mock.invocationCallOrder[0])
+    })
+
+    it('should revoke credentials of an authenticated CLI', async () => {
+      vi.mocked(core.getState).mockImplementation((name) => (name === 'authenticatedCliPath' ? '/tmp/extracted/nucel' : ''))
+      vi.mocked(exec.exec).mockResolvedValue(0)
+      vi.mocked(fs.rm).mockResolvedValue()
+
+      await cleanup()
+
+      expect(exec.exec).toHaveBeenCalledWith('/tmp/extracted/nucel', ['logout'], { ignoreReturnCode: true })
+      expect(core.exportVariable).toHaveBeenCalledWith('NUCEL_TOKEN', '')
+    })
+
+    it('should remove the problem matcher', async () => {
+      vi.mocked(core.getState).mockImplementation((name) => (name === 'problemMatcher' ? 'true' : ''))
+      vi.mocked(fs.rm).mockResolvedValue()
+
+      await cleanup()
+
+      expect(core.info).toHaveBeenCalledWith('::remove-matcher owner=nucel::')
+    })
+
+    it('should skip revocation when no token was used', async () => {
+      vi.mocked(core.getState).mockReturnValue('')
+      vi.mocked(fs.rm).mockResolvedValue()
+
+      await cleanup()
+
+      expect(exec.exec).not.toHaveBeenCalled()
+      expect(core.exportVariable).not.toHaveBeenCalled()
+    })
+
     it('should handle cleanup errors gracefully', async () => {
+      process.env.RUNNER_TEMP = '/runner/temp'
+      vi.mocked(core.getState).mockImplementation((name) => (name === 'workDir' ? workDir : ''))
+      vi.mocked(fs.readdir).mockResolvedValue([])
       vi.mocked(fs.rm).mockRejectedValue(new Error('Cleanup failed'))
 
       await cleanup()
@@ -350,7 +1352,7 @@ describe('Nucel CLI Setup Action', () => {
       vi.mocked(cache.restoreCache).mockResolvedValue(undefined)
 
       // Mock network error
-      vi.mocked(tc.downloadTool).mockRejectedValue(new Error('Network error'))
+      vi.mocked(downloadFile).mockRejectedValue(new Error('Network error'))
 
       await expect(run(inputs, mockContext)).rejects.toThrow('Failed to install Nucel CLI')
     })
@@ -362,15 +1364,83 @@ describe('Nucel CLI Setup Action', () => {
       vi.mocked(cache.restoreCache).mockResolvedValue(undefined)
 
       // Mock download error for valid version
-      vi.mocked(tc.downloadTool).mockRejectedValue(new Error('Download failed'))
+      vi.mocked(downloadFile).mockRejectedValue(new Error('Download failed'))
 
       await expect(run(inputs, mockContext)).rejects.toThrow('Failed to install Nucel CLI')
     })
 
+    it('should report versions that are not published', async () => {
+      vi.mocked(cache.restoreCache).mockResolvedValue(undefined)
+      vi.mocked(downloadFile).mockRejectedValue(Object.assign(new Error('Unexpected HTTP response: 404'), { httpStatusCode: 404 }))
+
+      await expect(run({ version: '1.2.3' }, mockContext)).rejects.toThrow(
+        'Nucel CLI 1.2.3 (nucel-cli-linux-x64.tar.gz) is not published',
+      )
+      expect(downloadFile).toHaveBeenCalledTimes(1)
+    })
+
+    it('should fall back to mirrors in order', async () => {
+      vi.mocked(cache.restoreCache).mockResolvedValue(undefined)
+      vi.mocked(cache.saveCache).mockResolvedValue(0)
+      vi.mocked(downloadFile)
+        .mockRejectedValueOnce(Object.assign(new Error('Unexpected HTTP response: 403'), { httpStatusCode: 403 }))
+        .mockResolvedValueOnce('/tmp/downloaded-file.tar.gz')
+      vi.mocked(tc.extractTar).mockResolvedValue('/tmp/extracted')
+      vi.mocked(exec.exec).mockResolvedValue(0)
+      vi.mocked(fs.access).mockResolvedValue()
+
+      await run(
+        {
+          version: 'latest',
+          downloadFallbackUrls: ['https://mirror.example.com/nucel/'],
+          downloadHeaders: { Authorization: 'Bearer mirror-token' },
+        },
+        mockContext,
+      )
+
+      expect(downloadFile).toHaveBeenNthCalledWith(
+        1,
+        `${releaseDownloadUrl}/cli-v1.3.0/nucel-cli-linux-x64.tar.gz`,
+        path.join(workDir, '1.3.0', 'nucel-cli-linux-x64.tar.gz'),
+        {},
+      )
+      expect(downloadFile).toHaveBeenNthCalledWith(
+        2,
+        'https://mirror.example.com/nucel/cli-v1.3.0/nucel-cli-linux-x64.tar.gz',
+        path.join(workDir, '1.3.0', 'nucel-cli-linux-x64.tar.gz'),
+        { Authorization: 'Bearer mirror-token' },
+      )
+      expect(core.setOutput).toHaveBeenCalledWith('cli-path', path.join(toolDir, 'nucel'))
+    })
+
+    it('should detect the archive format from its magic bytes', async () => {
+      vi.mocked(cache.restoreCache).mockResolvedValue(undefined)
+      vi.mocked(downloadFile).mockResolvedValue('/tmp/downloaded-file.tar.gz')
+      vi.mocked(tc.extractTar).mockResolvedValue('/tmp/extracted')
+      vi.mocked(exec.exec).mockResolvedValue(0)
+      vi.mocked(fs.access).mockResolvedValue()
+      mockArchive(Buffer.from([0xfd, 0x37, 0x7a, 0x58, 0x5a, 0x00, 0x00, 0x04]))
+
+      await run({ version: 'latest' }, mockContext)
+
+      expect(tc.extractTar).toHaveBeenCalledWith('/tmp/downloaded-file.tar.gz', path.join(workDir, '1.3.0', 'extracted'), 'xJ')
+    })
+
+    it('should fail on unknown archive formats', async () => {
+      vi.mocked(cache.restoreCache).mockResolvedValue(undefined)
+      vi.mocked(downloadFile).mockResolvedValue('/tmp/downloaded-file.tar.gz')
+      mockArchive(Buffer.from('<html>Not Found</html>'))
+
+      await expect(run({ version: 'latest' }, mockContext)).rejects.toThrow(
+        'Unknown archive format (header 3c68746d6c3e4e6f): /tmp/downloaded-file.tar.gz',
+      )
+      expect(tc.extractTar).not.toHaveBeenCalled()
+    })
+
     it('should validate version format', async () => {
       const inputs = { version: 'not-a-version' }
 
-      await expect(run(inputs, mockContext)).rejects.toThrow('version must be "latest" or a valid semantic version')
+      await expect(run(inputs, mockContext)).rejects.toThrow('version must be "latest", a channel (stable, beta, canary or nightly) or a valid semantic version')
     })
 
     it('should handle executable not found after installation', async () => {
@@ -381,7 +1451,7 @@ describe('Nucel CLI Setup Action', () => {
       vi.mocked(cache.saveCache).mockResolvedValue(0)
 
       // Mock successful download and extraction
-      vi.mocked(tc.downloadTool).mockResolvedValue('/tmp/downloaded-file.tar.gz')
+      vi.mocked(downloadFile).mockResolvedValue('/tmp/downloaded-file.tar.gz')
       vi.mocked(tc.extractTar).mockResolvedValue('/tmp/extracted')
 
       // Mock file not found
@@ -395,7 +1465,50 @@ describe('Nucel CLI Setup Action', () => {
       await expect(run({} as any, mockContext)).rejects.toThrow('version input is required')
 
       // Test invalid version format
-      await expect(run({ version: 'invalid' }, mockContext)).rejects.toThrow('version must be "latest" or a valid semantic version')
+      await expect(run({ version: 'invalid' }, mockContext)).rejects.toThrow('version must be "latest", a channel (stable, beta, canary or nightly) or a valid semantic version')
+    })
+
+    it('should accept semver ranges', async () => {
+      vi.mocked(cache.restoreCache).mockResolvedValue(undefined)
+      vi.mocked(downloadFile).mockRejectedValue(new Error('Download failed'))
+
+      await expect(run({ version: '^1.2' }, mockContext)).rejects.toThrow('Failed to install Nucel CLI')
+      expect(downloadFile).toHaveBeenCalledWith(`${releaseDownloadUrl}/cli-v1.3.0/nucel-cli-linux-x64.tar.gz`, path.join(workDir, '1.3.0', 'nucel-cli-linux-x64.tar.gz'), {})
+    })
+
+    it('should resolve a channel to its newest build every time', async () => {
+      vi.mocked(tc.findAllVersions).mockReturnValue(['2.0.0-beta.0'])
+      vi.mocked(cache.restoreCache).mockResolvedValue(undefined)
+      vi.mocked(downloadFile).mockResolvedValue('/tmp/downloaded-file.tar.gz')
+      vi.mocked(tc.extractTar).mockResolvedValue('/tmp/extracted')
+      vi.mocked(exec.exec).mockResolvedValue(0)
+      vi.mocked(fs.access).mockResolvedValue()
+
+      await run({ version: 'beta' }, mockContext)
+
+      expect(tc.findAllVersions).not.toHaveBeenCalled()
+      expect(downloadFile).toHaveBeenCalledWith(
+        `${releaseDownloadUrl}/cli-v2.0.0-beta.1/nucel-cli-linux-x64.tar.gz`,
+        path.join(workDir, '2.0.0-beta.1', 'nucel-cli-linux-x64.tar.gz'),
+        {},
+      )
+      expect(cache.saveCache).toHaveBeenCalledWith(expect.any(Array), 'nucel-cli-2.0.0-beta.1-linux-x64')
+      expect(core.setOutput).toHaveBeenCalledWith('channel', 'beta')
+      expect(core.setOutput).toHaveBeenCalledWith('build', '1')
+    })
+
+    it('should key the cache on the resolved version', async () => {
+      vi.mocked(cache.restoreCache).mockResolvedValue('cache-key')
+      vi.mocked(tc.find).mockReturnValueOnce('').mockReturnValueOnce(toolDir)
+      vi.mocked(fs.access).mockResolvedValue()
+      vi.mocked(exec.exec).mockResolvedValue(0)
+
+      await run({ version: '1.x' }, mockContext)
+
+      expect(cache.restoreCache).toHaveBeenCalledWith(
+        [expect.stringContaining(toolDir), expect.stringContaining(`${toolDir}.complete`)],
+        'nucel-cli-1.3.0-linux-x64',
+      )
     })
   })
 })
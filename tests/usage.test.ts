@@ -0,0 +1,144 @@
+import { expect, it, describe, vi, beforeEach, afterEach } from 'vitest'
+import { installUsageShim, readInvocations, writeUsageSummary } from '../src/usage.js'
+import * as core from '@actions/core'
+import { spawnSync } from 'child_process'
+import * as fs from 'fs/promises'
+import * as os from 'os'
+import * as path from 'path'
+
+vi.mock('@actions/core')
+
+describe.skipIf(process.platform === 'win32')('usage shim', () => {
+  let tempDir: string
+  let shimDir: string
+  let logPath: string
+
+  // Stands in for the CLI: exits with the code given as --exit, and echoes its arguments
+  const fakeCli = '#!/bin/sh\necho "$@"\nfor arg; do case "$arg" in --exit=*) exit "${arg#--exit=}";; esac; done\n'
+
+  const runShim = (args: string[], env: Record<string, string> = {}) =>
+    spawnSync(path.join(shimDir, 'nucel'), args, { encoding: 'utf-8', env: { ...process.env, ...env } })
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'setup-nucel-usage-'))
+    shimDir = path.join(tempDir, 'shim')
+    logPath = path.join(tempDir, 'usage.jsonl')
+    const nucelPath = path.join(tempDir, 'nucel')
+    await fs.writeFile(nucelPath, fakeCli, { mode: 0o755 })
+    await installUsageShim(nucelPath, tempDir, shimDir)
+  })
+
+  afterEach(async () => {
+    vi.restoreAllMocks()
+    await fs.rm(tempDir, { recursive: true, force: true })
+  })
+
+  it('should run the CLI and record the invocation', async () => {
+    const result = runShim(['deploy', '--prod'])
+
+    expect(result.status).toBe(0)
+    expect(result.stdout).toBe('deploy --prod\n')
+    expect(core.saveState).toHaveBeenCalledWith('usageLog', logPath)
+    const [invocation] = await readInvocations(logPath)
+    expect(invocation).toMatchObject({ subcommand: 'deploy', args: ['deploy', '--prod'], exitCode: 0 })
+    expect(invocation.durationMs).toBeGreaterThanOrEqual(0)
+  })
+
+  it('should pass the exit code through', async () => {
+    const result = runShim(['build', '--exit=3'])
+
+    expect(result.status).toBe(3)
+    expect(await readInvocations(logPath)).toEqual([expect.objectContaining({ subcommand: 'build', exitCode: 3 })])
+  })
+
+  it('should redact secrets before recording them', async () => {
+    runShim(['deploy', '--token', 'abc', '--api-key=def', '--env', 'KEY=nucel_secret_1'], { NUCEL_TOKEN: 'nucel_secret_1' })
+
+    const [invocation] = await readInvocations(logPath)
+    expect(invocation.args).toEqual(['deploy', '--token', '***', '--api-key=***', '--env', 'KEY=***'])
+    expect(await fs.readFile(logPath, 'utf-8')).not.toContain('nucel_secret_1')
+  })
+
+  it('should not take the value of a leading flag for the subcommand', async () => {
+    runShim(['--project', 'web', 'deploy'])
+    runShim(['--token', 'abc', 'deploy'])
+
+    expect(await readInvocations(logPath)).toEqual([
+      expect.objectContaining({ subcommand: '', args: ['--project', 'web', 'deploy'] }),
+      expect.objectContaining({ subcommand: '', args: ['--token', '***', 'deploy'] }),
+    ])
+  })
+
+  it('should skip records it cannot read', async () => {
+    runShim(['whoami'])
+    await fs.appendFile(logPath, '{"subcommand":"dep')
+
+    expect(await readInvocations(logPath)).toEqual([expect.objectContaining({ subcommand: 'whoami' })])
+  })
+})
+
+describe('writeUsageSummary', () => {
+  let tempDir: string
+  let logPath: string
+
+  const record = (subcommand: string, exitCode: number | null, signal?: string) =>
+    JSON.stringify({ subcommand, args: [subcommand], exitCode, signal, durationMs: 120, startedAt: '2026-10-19T10:00:00.000Z' })
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'setup-nucel-usage-'))
+    logPath = path.join(tempDir, 'usage.jsonl')
+    vi.mocked(core.getState).mockImplementation((name) => (name === 'usageLog' ? logPath : ''))
+    for (const method of ['addHeading', 'addRaw', 'addTable'] as const) {
+      vi.mocked(core.summary[method]).mockReturnValue(core.summary)
+    }
+    process.env.GITHUB_STEP_SUMMARY = '/tmp/step-summary.md'
+  })
+
+  afterEach(async () => {
+    delete process.env.GITHUB_STEP_SUMMARY
+    vi.restoreAllMocks()
+    await fs.rm(tempDir, { recursive: true, force: true })
+  })
+
+  it('should do nothing when usage tracking is off', async () => {
+    vi.mocked(core.getState).mockReturnValue('')
+
+    await writeUsageSummary()
+
+    expect(core.summary.write).not.toHaveBeenCalled()
+  })
+
+  it('should list every invocation and flag the failed ones', async () => {
+    await fs.writeFile(logPath, [record('build', 0), record('deploy', 1), record('logs', null, 'SIGTERM'), ''].join('\n'))
+
+    await writeUsageSummary()
+
+    expect(core.summary.addHeading).toHaveBeenCalledWith('Nucel CLI usage', 3)
+    expect(core.summary.addRaw).toHaveBeenCalledWith('3 commands, 2 failed', true)
+    const [, ...rows] = vi.mocked(core.summary.addTable).mock.calls[0][0]
+    expect(rows).toEqual([
+      ['<code>nucel build</code>', 'build', '✅ Succeeded', '120 ms', '2026-10-19T10:00:00.000Z'],
+      ['<code>nucel deploy</code>', 'deploy', '❌ Exit code 1', '120 ms', '2026-10-19T10:00:00.000Z'],
+      ['<code>nucel logs</code>', 'logs', '❌ Killed by SIGTERM', '120 ms', '2026-10-19T10:00:00.000Z'],
+    ])
+    expect(core.warning).toHaveBeenCalledWith('nucel deploy failed: Exit code 1', { title: 'Nucel CLI command failed' })
+    expect(core.warning).toHaveBeenCalledWith('nucel logs failed: Killed by SIGTERM', { title: 'Nucel CLI command failed' })
+    expect(core.summary.write).toHaveBeenCalled()
+  })
+
+  it('should not write an empty table', async () => {
+    await fs.writeFile(logPath, '')
+
+    await writeUsageSummary()
+
+    expect(core.info).toHaveBeenCalledWith('Nucel CLI ran 0 times, 0 failed')
+    expect(core.summary.addTable).not.toHaveBeenCalled()
+  })
+
+  it('should warn when the log is gone', async () => {
+    await writeUsageSummary()
+
+    expect(core.warning).toHaveBeenCalledWith(expect.stringContaining('Could not read the Nucel CLI invocations'))
+    expect(core.summary.write).not.toHaveBeenCalled()
+  })
+})
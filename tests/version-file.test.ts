@@ -0,0 +1,87 @@
+import { expect, it, describe, vi, beforeEach, afterEach } from 'vitest'
+import { getVersionSpec, readVersionFile } from '../src/version-file.js'
+import * as core from '@actions/core'
+import * as fs from 'fs/promises'
+import * as os from 'os'
+import * as path from 'path'
+
+vi.mock('@actions/core')
+
+describe('version file', () => {
+  let workspace: string
+
+  beforeEach(async () => {
+    workspace = await fs.mkdtemp(path.join(os.tmpdir(), 'setup-nucel-'))
+    process.env.GITHUB_WORKSPACE = workspace
+  })
+
+  afterEach(async () => {
+    await fs.rm(workspace, { recursive: true, force: true })
+    delete process.env.GITHUB_WORKSPACE
+  })
+
+  const writeFile = (name: string, content: string) => fs.writeFile(path.join(workspace, name), content)
+
+  describe('readVersionFile', () => {
+    it('should read .nucel-version', async () => {
+      await writeFile('.nucel-version', '# pinned CLI\nv1.4.2\n')
+
+      expect(await readVersionFile('.nucel-version')).toBe('1.4.2')
+    })
+
+    it('should read the nucel entry of .tool-versions', async () => {
+      await writeFile('.tool-versions', 'nodejs 22.11.0\nnucel 1.4.2 # comment\n')
+
+      expect(await readVersionFile('.tool-versions')).toBe('1.4.2')
+    })
+
+    it('should read the nucel field of package.json', async () => {
+      await writeFile('package.json', JSON.stringify({ name: 'app', nucel: '^1.4' }))
+
+      expect(await readVersionFile('package.json')).toBe('^1.4')
+    })
+
+    it('should read the cliVersion field of nucel.config.json', async () => {
+      await fs.mkdir(path.join(workspace, 'app'))
+      await writeFile('app/nucel.config.json', JSON.stringify({ name: 'app', cliVersion: '1.x' }))
+
+      expect(await readVersionFile('app/nucel.config.json')).toBe('1.x')
+    })
+
+    it('should fail when the file has no version', async () => {
+      await writeFile('package.json', JSON.stringify({ name: 'app' }))
+
+      await expect(readVersionFile('package.json')).rejects.toThrow('No Nucel CLI version found in package.json')
+    })
+
+    it('should fail when the file does not exist', async () => {
+      await expect(readVersionFile('.nucel-version')).rejects.toThrow('Failed to read version file .nucel-version')
+    })
+  })
+
+  describe('getVersionSpec', () => {
+    it('should default to latest', async () => {
+      expect(await getVersionSpec('', '')).toBe('latest')
+    })
+
+    it('should use the version file when no version is given', async () => {
+      await writeFile('.nucel-version', '1.4.2')
+
+      expect(await getVersionSpec('', '.nucel-version')).toBe('1.4.2')
+    })
+
+    it('should prefer the version input and warn about a conflict', async () => {
+      await writeFile('.nucel-version', '1.4.2')
+
+      expect(await getVersionSpec('2.0.0', '.nucel-version')).toBe('2.0.0')
+      expect(core.warning).toHaveBeenCalledWith('version input 2.0.0 overrides 1.4.2 from .nucel-version')
+    })
+
+    it('should not warn when both agree', async () => {
+      await writeFile('.nucel-version', '1.4.2')
+
+      expect(await getVersionSpec('v1.4.2', '.nucel-version')).toBe('v1.4.2')
+      expect(core.warning).not.toHaveBeenCalled()
+    })
+  })
+})
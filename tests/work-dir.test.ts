@@ -0,0 +1,105 @@
+import { expect, it, describe, vi, beforeEach, afterEach } from 'vitest'
+import { createWorkDir, removeWorkDir } from '../src/work-dir.js'
+import * as core from '@actions/core'
+import * as fs from 'fs/promises'
+import * as os from 'os'
+import * as path from 'path'
+
+vi.mock('@actions/core')
+
+const exists = (filePath: string) =>
+  fs.access(filePath).then(
+    () => true,
+    () => false,
+  )
+
+describe('work-dir', () => {
+  let root: string
+  let runnerTemp: string
+  let state: Record<string, string>
+
+  beforeEach(async () => {
+    root = await fs.mkdtemp(path.join(os.tmpdir(), 'work-dir-test-'))
+    runnerTemp = path.join(root, 'temp')
+    process.env.RUNNER_TEMP = runnerTemp
+    state = {}
+    vi.mocked(core.saveState).mockImplementation((name, value) => {
+      state[name] = value
+    })
+    vi.mocked(core.getState).mockImplementation((name) => state[name] ?? '')
+  })
+
+  afterEach(async () => {
+    vi.restoreAllMocks()
+    delete process.env.RUNNER_TEMP
+    await fs.rm(root, { recursive: true, force: true })
+  })
+
+  it('should create a unique directory under RUNNER_TEMP and record it', async () => {
+    const first = await createWorkDir()
+    const second = await createWorkDir()
+
+    expect(path.dirname(first)).toBe(runnerTemp)
+    expect(path.basename(first)).toMatch(/^setup-nucel-/)
+    expect(second).not.toBe(first)
+    expect(core.saveState).toHaveBeenCalledWith('workDir', first)
+    expect(state.workDir).toBe(second)
+  })
+
+  it('should remove only the working directory and log what it removed', async () => {
+    const workDir = await createWorkDir()
+    await fs.writeFile(path.join(workDir, 'nucel-cli-linux-x64.tar.gz'), 'archive')
+    await fs.mkdir(path.join(workDir, 'extracted'))
+    await fs.writeFile(path.join(runnerTemp, 'other-action.txt'), 'keep')
+    await fs.mkdir(path.join(runnerTemp, 'setup-nucel-other'))
+
+    await removeWorkDir()
+
+    expect(await exists(workDir)).toBe(false)
+    expect(await fs.readFile(path.join(runnerTemp, 'other-action.txt'), 'utf-8')).toBe('keep')
+    expect(await exists(path.join(runnerTemp, 'setup-nucel-other'))).toBe(true)
+    expect(core.info).toHaveBeenCalledWith(`Removing ${path.join(workDir, 'extracted')}`)
+    expect(core.info).toHaveBeenCalledWith(`Removing ${path.join(workDir, 'nucel-cli-linux-x64.tar.gz')}`)
+    expect(core.info).toHaveBeenCalledWith(`Removed ${workDir}`)
+  })
+
+  it('should do nothing when the main step did not create a directory', async () => {
+    await fs.mkdir(runnerTemp)
+    await fs.writeFile(path.join(runnerTemp, 'other-action.txt'), 'keep')
+
+    await removeWorkDir()
+
+    expect(await fs.readdir(runnerTemp)).toEqual(['other-action.txt'])
+    expect(core.info).not.toHaveBeenCalled()
+  })
+
+  it('should report a directory that is already gone', async () => {
+    const workDir = await createWorkDir()
+    await fs.rm(workDir, { recursive: true })
+
+    await removeWorkDir()
+
+    expect(core.info).toHaveBeenCalledWith(`Already removed: ${workDir}`)
+  })
+
+  it.each([
+    ['a user directory outside RUNNER_TEMP', () => path.join(root, 'workspace', 'setup-nucel-cache')],
+    ['RUNNER_TEMP itself', () => runnerTemp],
+    ['a directory without the setup-nucel- prefix', () => path.join(runnerTemp, 'nucel-cache')],
+    ['a nested directory', () => path.join(runnerTemp, 'setup-nucel-abc', 'setup-nucel-def')],
+    ['a relative path', () => path.join('temp', 'setup-nucel-abc')],
+  ])('should refuse to remove %s', async (_name, getPath) => {
+    const target = getPath()
+    const userFile = path.join(path.resolve(root, target), 'user-file.txt')
+    await fs.mkdir(path.dirname(userFile), { recursive: true })
+    await fs.writeFile(userFile, 'keep')
+    state.workDir = target
+
+    await removeWorkDir()
+
+    expect(await fs.readFile(userFile, 'utf-8')).toBe('keep')
+    expect(core.warning).toHaveBeenCalledWith(
+      `Not removing ${target}: it is not a setup-nucel working directory under ${runnerTemp}`,
+    )
+  })
+})